@@ -2,14 +2,59 @@
 
 pragma solidity 0.8.24;
 
-import { MultiSigWallet } from "./MultiSigWallet.sol";
+import { Clones } from "@openzeppelin/contracts/proxy/Clones.sol";
+import { ERC1967Proxy } from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+import { IMultiSigWallet } from "./base/IMultiSigWallet.sol";
+import { IMultiSigWalletRegistry } from "./base/IMultiSigWalletRegistry.sol";
+import { MultiSigWalletUpgradeable } from "./MultiSigWalletUpgradeable.sol";
 
 /**
  * @title MultiSigWalletFactory contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
  * @dev The contract factory for creating new multi-signature wallet contracts.
+ *
+ * All wallets are deployed on top of the registered {MultiSigWalletUpgradeable} implementation
+ * and initialized atomically within the deployment transaction:
+ *
+ * - Non-upgradeable wallets are EIP-1167 minimal clones of the implementation.
+ *   A clone does not store the implementation address in the ERC-1967 slot, so it cannot be upgraded.
+ * - Upgradeable wallets are ERC-1967 UUPS proxies pointing to the implementation.
+ *   A proxy can be upgraded later through a wallet transaction calling the `upgradeTo()` function.
+ *
+ * The factory also indexes the deployed wallets by their deployers and owners. Each deployed wallet has
+ * the factory configured as its registry, so the wallet notifies the factory when its owners are configured
+ * and the index of owners stays up to date. The wallet owners can disable the notifications by configuring
+ * another registry, in which case the index of owners keeps the last notified owners of the wallet.
+ *
+ * Breaking changes compared to the factory deploying standalone {MultiSigWallet} contracts:
+ *
+ * - The constructor takes the address of the implementation, which must be deployed beforehand.
+ * - The {deployNewWallet} and {deployNewWalletDeterministic} functions deploy clones of the implementation,
+ *   so the predicted addresses of deterministic wallets differ from the ones of the previous version.
+ * - The {NewWallet} event has the additional `kind` field, which changes the event signature and its topic.
  */
-contract MultiSigWalletFactory {
+contract MultiSigWalletFactory is IMultiSigWalletRegistry {
+    // ------------------ Types ----------------------------------- //
+
+    /**
+     * @dev Possible kinds of a deployed wallet.
+     *
+     * The values:
+     *
+     * - Clone --- A non-upgradeable EIP-1167 minimal clone of the implementation.
+     * - Proxy --- An upgradeable ERC-1967 UUPS proxy pointing to the implementation.
+     */
+    enum WalletKind {
+        Clone,
+        Proxy
+    }
+
+    // ------------------ Immutables ------------------------------ //
+
+    /// @dev The address of the registered wallet implementation used for all deployed wallets.
+    address public immutable walletImplementation;
+
     // ------------------ Events ---------------------------------- //
 
     /**
@@ -17,29 +62,141 @@ contract MultiSigWalletFactory {
      * @param deployer The address of the wallet deployer.
      * @param wallet The address of the deployed wallet.
      * @param id The ID of the deployed wallet.
+     * @param kind The kind of the deployed wallet.
+     */
+    event NewWallet(address indexed deployer, address indexed wallet, uint indexed id, WalletKind kind);
+
+    /**
+     * @dev Emitted when the indexed owners of a deployed wallet are updated.
+     * @param wallet The address of the wallet.
+     * @param owners The new owners of the wallet.
      */
-    event NewWallet(address indexed deployer, address indexed wallet, uint indexed id);
+    event WalletOwnersUpdated(address indexed wallet, address[] owners);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev The zero address was passed as the wallet implementation.
+    error ZeroImplementationAddress();
+
+    /// @dev The caller is not a wallet deployed by this factory.
+    error WalletNotRegistered();
 
     // ------------------ Storage --------------------------------- //
 
     /// @dev An array of wallets deployed by this factory.
     address[] public wallets;
 
+    /// @dev The mapping of the registration status for a given wallet.
+    mapping(address => bool) internal _isWallet;
+
+    /// @dev The mapping of the wallets deployed by a given deployer.
+    mapping(address => address[]) internal _walletsByDeployer;
+
+    /// @dev The mapping of the wallets where a given account is an owner.
+    mapping(address => address[]) internal _walletsByOwner;
+
+    /// @dev The mapping of the position (index + 1) of a given wallet in the wallets of a given owner.
+    mapping(address => mapping(address => uint256)) internal _walletPositionsByOwner;
+
+    /// @dev The mapping of the indexed owners for a given wallet.
+    mapping(address => address[]) internal _walletOwners;
+
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev Constructor that registers the wallet implementation.
+     * @param implementation The address of a deployed {MultiSigWalletUpgradeable} implementation.
+     */
+    constructor(address implementation) {
+        if (implementation == address(0)) {
+            revert ZeroImplementationAddress();
+        }
+        walletImplementation = implementation;
+    }
+
     // ------------------ Transactional functions ----------------- //
 
     /**
-     * @dev Deploys a new multi-signature wallet contract.
+     * @dev Deploys a new non-upgradeable multi-signature wallet as a clone of the implementation.
      * @param owners An array of the owners of the deployed wallet.
      * @param requiredApprovals The number of required approvals to execute transactions.
      * @return The address of the deployed wallet.
      */
     function deployNewWallet(address[] memory owners, uint16 requiredApprovals) external returns (address) {
-        address newWallet = address(new MultiSigWallet(owners, requiredApprovals));
-        wallets.push(newWallet);
-        emit NewWallet(msg.sender, newWallet, wallets.length - 1);
+        address newWallet = Clones.clone(walletImplementation);
+        MultiSigWalletUpgradeable(payable(newWallet)).initializeWithRegistry(owners, requiredApprovals, address(this));
+        _registerWallet(newWallet, owners, WalletKind.Clone);
+        return newWallet;
+    }
+
+    /**
+     * @dev Deploys a new non-upgradeable multi-signature wallet as a clone at a deterministic address using CREATE2.
+     *
+     * The address depends only on this factory address, the implementation, the salt and the wallet parameters,
+     * so it can be computed in advance with {predictWalletAddress}.
+     *
+     * @param owners An array of the owners of the deployed wallet.
+     * @param requiredApprovals The number of required approvals to execute transactions.
+     * @param salt The salt used to compute the wallet address.
+     * @return The address of the deployed wallet.
+     */
+    function deployNewWalletDeterministic(
+        address[] memory owners,
+        uint16 requiredApprovals,
+        bytes32 salt
+    ) external returns (address) {
+        bytes32 walletSalt = _getWalletSalt(owners, requiredApprovals, salt);
+        address newWallet = Clones.cloneDeterministic(walletImplementation, walletSalt);
+        MultiSigWalletUpgradeable(payable(newWallet)).initializeWithRegistry(owners, requiredApprovals, address(this));
+        _registerWallet(newWallet, owners, WalletKind.Clone);
         return newWallet;
     }
 
+    /**
+     * @dev Deploys a new upgradeable multi-signature wallet as a UUPS proxy pointing to the implementation.
+     * @param owners An array of the owners of the deployed wallet.
+     * @param requiredApprovals The number of required approvals to execute transactions.
+     * @return The address of the deployed wallet.
+     */
+    function deployNewProxyWallet(address[] memory owners, uint16 requiredApprovals) external returns (address) {
+        address newWallet = address(
+            new ERC1967Proxy(
+                walletImplementation,
+                abi.encodeCall(
+                    MultiSigWalletUpgradeable.initializeWithRegistry,
+                    (owners, requiredApprovals, address(this))
+                )
+            )
+        );
+        _registerWallet(newWallet, owners, WalletKind.Proxy);
+        return newWallet;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWalletRegistry
+     *
+     * @dev Replaces the indexed owners of the calling wallet with its actual owners.
+     *
+     * Emits a {WalletOwnersUpdated} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be a wallet deployed by this factory.
+     */
+    function notifyOwnersConfigured() external {
+        if (!_isWallet[msg.sender]) {
+            revert WalletNotRegistered();
+        }
+
+        address[] storage oldOwners = _walletOwners[msg.sender];
+        uint256 len = oldOwners.length;
+        for (uint256 i = 0; i < len; i++) {
+            _removeWalletOfOwner(oldOwners[i], msg.sender);
+        }
+
+        _indexWalletOwners(msg.sender, IMultiSigWallet(msg.sender).owners());
+    }
+
     // ------------------ View functions -------------------------- //
 
     /**
@@ -48,4 +205,155 @@ contract MultiSigWalletFactory {
     function walletsCount() external view returns (uint256) {
         return wallets.length;
     }
+
+    /**
+     * @dev Checks if a wallet is deployed by this factory.
+     * @param wallet The address of the wallet to check.
+     */
+    function isWallet(address wallet) external view returns (bool) {
+        return _isWallet[wallet];
+    }
+
+    /**
+     * @dev Returns the number of wallets deployed by a given deployer.
+     * @param deployer The address of the deployer.
+     */
+    function walletsByDeployerCount(address deployer) external view returns (uint256) {
+        return _walletsByDeployer[deployer].length;
+    }
+
+    /**
+     * @dev Returns a page of wallets deployed by a given deployer in the order of deployment.
+     *
+     * - The function will return an empty array if the offset is out of range or if the limit is zero.
+     *
+     * @param deployer The address of the deployer.
+     * @param offset The index of the first wallet to return.
+     * @param limit The maximum number of wallets to return.
+     */
+    function getWalletsByDeployer(
+        address deployer,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory) {
+        return _getPage(_walletsByDeployer[deployer], offset, limit);
+    }
+
+    /**
+     * @dev Returns the number of wallets where a given account is an owner.
+     * @param owner The address of the owner.
+     */
+    function walletsByOwnerCount(address owner) external view returns (uint256) {
+        return _walletsByOwner[owner].length;
+    }
+
+    /**
+     * @dev Returns a page of wallets where a given account is an owner.
+     *
+     * - The order of wallets is not guaranteed and can change when the wallet owners are reconfigured.
+     * - The function will return an empty array if the offset is out of range or if the limit is zero.
+     *
+     * @param owner The address of the owner.
+     * @param offset The index of the first wallet to return.
+     * @param limit The maximum number of wallets to return.
+     */
+    function getWalletsByOwner(address owner, uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return _getPage(_walletsByOwner[owner], offset, limit);
+    }
+
+    /**
+     * @dev Returns the address of a wallet deployed with {deployNewWalletDeterministic} and the same parameters.
+     * @param owners An array of the owners of the wallet.
+     * @param requiredApprovals The number of required approvals to execute transactions.
+     * @param salt The salt used to compute the wallet address.
+     */
+    function predictWalletAddress(
+        address[] memory owners,
+        uint16 requiredApprovals,
+        bytes32 salt
+    ) external view returns (address) {
+        bytes32 walletSalt = _getWalletSalt(owners, requiredApprovals, salt);
+        return Clones.predictDeterministicAddress(walletImplementation, walletSalt);
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Stores a newly deployed wallet and indexes it by the deployer and the initial owners.
+     *
+     * Emits a {NewWallet} event.
+     */
+    function _registerWallet(address newWallet, address[] memory owners, WalletKind kind) internal {
+        wallets.push(newWallet);
+        _isWallet[newWallet] = true;
+        _walletsByDeployer[msg.sender].push(newWallet);
+        emit NewWallet(msg.sender, newWallet, wallets.length - 1, kind);
+        _indexWalletOwners(newWallet, owners);
+    }
+
+    /**
+     * @dev Indexes a wallet by each of its owners and stores the owners as the indexed ones.
+     *
+     * Emits a {WalletOwnersUpdated} event.
+     */
+    function _indexWalletOwners(address wallet, address[] memory owners) internal {
+        uint256 len = owners.length;
+        for (uint256 i = 0; i < len; i++) {
+            address[] storage ownerWallets = _walletsByOwner[owners[i]];
+            ownerWallets.push(wallet);
+            _walletPositionsByOwner[owners[i]][wallet] = ownerWallets.length;
+        }
+        _walletOwners[wallet] = owners;
+        emit WalletOwnersUpdated(wallet, owners);
+    }
+
+    /**
+     * @dev Removes a wallet from the wallets of an owner by moving the last wallet into its position.
+     */
+    function _removeWalletOfOwner(address owner, address wallet) internal {
+        address[] storage ownerWallets = _walletsByOwner[owner];
+        uint256 position = _walletPositionsByOwner[owner][wallet];
+        uint256 lastPosition = ownerWallets.length;
+        if (position != lastPosition) {
+            address lastWallet = ownerWallets[lastPosition - 1];
+            ownerWallets[position - 1] = lastWallet;
+            _walletPositionsByOwner[owner][lastWallet] = position;
+        }
+        ownerWallets.pop();
+        delete _walletPositionsByOwner[owner][wallet];
+    }
+
+    /**
+     * @dev Returns a page of addresses from a storage array.
+     */
+    function _getPage(
+        address[] storage items,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (address[] memory page) {
+        uint256 len = items.length;
+        if (offset >= len || limit == 0) {
+            return page;
+        }
+        if (limit > len - offset) {
+            limit = len - offset;
+        }
+        page = new address[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = items[offset + i];
+        }
+    }
+
+    /**
+     * @dev Returns the CREATE2 salt of a wallet bound to its parameters.
+     *
+     * Binding the parameters prevents anyone from taking the predicted address with a wallet of other owners.
+     */
+    function _getWalletSalt(
+        address[] memory owners,
+        uint16 requiredApprovals,
+        bytes32 salt
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encode(owners, requiredApprovals, salt));
+    }
 }
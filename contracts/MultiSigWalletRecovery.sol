@@ -0,0 +1,550 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.24;
+
+import { IMultiSigWallet } from "./base/IMultiSigWallet.sol";
+
+/**
+ * @title MultiSigWalletRecovery contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The module that allows guardians to recover a multi-signature wallet whose owners lost their keys.
+ *
+ * A single deployed module serves any number of wallets. To use it, a wallet must enable the module
+ * with the {IMultiSigWallet-enableModule} function and configure its guardians by calling the
+ * {configureRecovery} function of the module through a wallet transaction.
+ *
+ * The recovery goes through the following stages:
+ *
+ * - A guardian proposes a new set of wallet owners, which also counts as the approval of the guardian.
+ * - Other guardians approve the proposed recovery until the required number of guardian approvals is collected.
+ * - After the recovery delay has passed since the proposal, anyone can execute the recovery, which replaces
+ *   the wallet owners through the {IMultiSigWallet-configureOwners} function called by the module.
+ *
+ * Until the recovery is executed, any current owner of the wallet can veto it, so the recovery succeeds only
+ * if none of the owners is able to react within the delay. Reconfiguring the recovery cancels a pending one.
+ * The guardians can also cancel a pending recovery, e.g. a mistaken one, by collecting the same number of
+ * cancellation approvals as required to execute it, so a proposal cannot block the recovery of the wallet.
+ */
+contract MultiSigWalletRecovery {
+    // ------------------ Types ----------------------------------- //
+
+    /**
+     * @dev The recovery settings of a wallet.
+     *
+     * Fields:
+     *
+     * - guardians ------------------ The array of accounts that can propose and approve a recovery.
+     * - requiredGuardianApprovals -- The number of guardian approvals required to execute a recovery.
+     * - delay ---------------------- The amount of time after the proposal before a recovery can be executed.
+     */
+    struct RecoveryConfig {
+        address[] guardians;
+        uint16 requiredGuardianApprovals;
+        uint120 delay;
+    }
+
+    /**
+     * @dev The data of a recovery proposed for a wallet.
+     *
+     * Fields:
+     *
+     * - nonce ------------------ The sequential number of the recovery proposal of the wallet.
+     * - executableAt ----------- The timestamp since which the recovery can be executed, zero if there is none.
+     * - approvalCount ---------- The number of guardians that approved the recovery.
+     * - cancellationCount ------ The number of guardians that approved the cancellation of the recovery.
+     * - newRequiredApprovals --- The number of approvals required by the wallet after the recovery.
+     * - newOwners -------------- The array of the wallet owners after the recovery.
+     */
+    struct Recovery {
+        uint64 nonce;
+        uint64 executableAt;
+        uint16 approvalCount;
+        uint16 cancellationCount;
+        uint16 newRequiredApprovals;
+        address[] newOwners;
+    }
+
+    // ------------------ Constants ------------------------------- //
+
+    /// @dev The minimum recovery delay that gives the wallet owners time to veto a recovery.
+    uint120 public constant MIN_DELAY = 1 days;
+
+    /// @dev The maximum recovery delay, so the timestamp since which a recovery can be executed fits into uint64.
+    uint120 public constant MAX_DELAY = 365 days;
+
+    // ------------------ Events ---------------------------------- //
+
+    /**
+     * @dev Emitted when the recovery settings of a wallet are configured.
+     * @param wallet The address of the wallet.
+     * @param guardians The array of the guardians.
+     * @param requiredGuardianApprovals The number of guardian approvals required to execute a recovery.
+     * @param delay The recovery delay.
+     */
+    event ConfigureRecovery(
+        address indexed wallet,
+        address[] guardians,
+        uint16 requiredGuardianApprovals,
+        uint120 delay
+    );
+
+    /**
+     * @dev Emitted when a recovery of a wallet is proposed by a guardian.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param guardian The address of the guardian.
+     * @param newOwners The array of the wallet owners after the recovery.
+     * @param newRequiredApprovals The number of approvals required by the wallet after the recovery.
+     * @param executableAt The timestamp since which the recovery can be executed.
+     */
+    event ProposeRecovery(
+        address indexed wallet,
+        uint256 indexed nonce,
+        address indexed guardian,
+        address[] newOwners,
+        uint16 newRequiredApprovals,
+        uint256 executableAt
+    );
+
+    /**
+     * @dev Emitted when a recovery of a wallet is approved by a guardian.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param guardian The address of the guardian.
+     */
+    event ApproveRecovery(address indexed wallet, uint256 indexed nonce, address indexed guardian);
+
+    /**
+     * @dev Emitted when a recovery of a wallet is vetoed by a wallet owner.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param owner The address of the wallet owner.
+     */
+    event VetoRecovery(address indexed wallet, uint256 indexed nonce, address indexed owner);
+
+    /**
+     * @dev Emitted when the cancellation of a pending recovery of a wallet is approved by a guardian.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param guardian The address of the guardian.
+     */
+    event ApproveRecoveryCancellation(address indexed wallet, uint256 indexed nonce, address indexed guardian);
+
+    /**
+     * @dev Emitted when a pending recovery of a wallet is cancelled by reconfiguring the recovery settings
+     * or by the guardians.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     */
+    event CancelRecovery(address indexed wallet, uint256 indexed nonce);
+
+    /**
+     * @dev Emitted when a recovery of a wallet is executed.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param executor The address of the account that executed the recovery.
+     */
+    event ExecuteRecovery(address indexed wallet, uint256 indexed nonce, address indexed executor);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev Unauthorized caller of the function.
+    error UnauthorizedCaller();
+
+    /// @dev An invalid array of guardians was passed when configuring the recovery.
+    error InvalidGuardians();
+
+    /// @dev An invalid number of required guardian approvals was passed when configuring the recovery.
+    error InvalidRequiredGuardianApprovals();
+
+    /// @dev An invalid recovery delay was passed when configuring the recovery.
+    error InvalidRecoveryDelay();
+
+    /// @dev An empty array of new owners was passed when proposing a recovery.
+    error EmptyOwnersArray();
+
+    /// @dev The zero address was passed among the new owners when proposing a recovery.
+    error ZeroOwnerAddress();
+
+    /// @dev A duplicate address was passed among the new owners when proposing a recovery.
+    error DuplicateOwnerAddress();
+
+    /// @dev An invalid number of required approvals of the wallet was passed when proposing a recovery.
+    error InvalidRequiredApprovals();
+
+    /// @dev There is already a pending recovery of the wallet.
+    error RecoveryAlreadyPending();
+
+    /// @dev There is no pending recovery of the wallet.
+    error RecoveryNotPending();
+
+    /// @dev The pending recovery of the wallet has already been approved by the guardian.
+    error RecoveryAlreadyApproved();
+
+    /// @dev The cancellation of the pending recovery of the wallet has already been approved by the guardian.
+    error RecoveryCancellationAlreadyApproved();
+
+    /// @dev The pending recovery of the wallet has not collected the required number of guardian approvals.
+    error NotEnoughGuardianApprovals();
+
+    /// @dev The recovery delay of the pending recovery has not passed yet.
+    error RecoveryDelayNotEnded();
+
+    /// @dev The call of the wallet that replaces the owners failed.
+    error RecoveryFailed(bytes data);
+
+    // ------------------ Storage --------------------------------- //
+
+    /// @dev The mapping of the recovery settings for a given wallet.
+    mapping(address => RecoveryConfig) internal _configs;
+
+    /// @dev The mapping of the guardian status for a given wallet and account.
+    mapping(address => mapping(address => bool)) internal _isGuardian;
+
+    /// @dev The mapping of the pending recovery for a given wallet.
+    mapping(address => Recovery) internal _recoveries;
+
+    /// @dev The mapping of the last used recovery nonce for a given wallet.
+    mapping(address => uint64) internal _recoveryNonces;
+
+    /// @dev The mapping of the approval status for a given wallet, recovery nonce and guardian.
+    mapping(address => mapping(uint256 => mapping(address => bool))) internal _recoveryApprovals;
+
+    /// @dev The mapping of the cancellation approval status for a given wallet, recovery nonce and guardian.
+    mapping(address => mapping(uint256 => mapping(address => bool))) internal _recoveryCancellations;
+
+    // ------------------ Modifiers ------------------------------- //
+
+    /**
+     * @dev Throws if called by any account other than a guardian of a given wallet.
+     */
+    modifier onlyGuardian(address wallet) {
+        if (!_isGuardian[wallet][msg.sender]) {
+            revert UnauthorizedCaller();
+        }
+        _;
+    }
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Configures the recovery settings of the calling wallet and cancels its pending recovery if any.
+     *
+     * An empty array of guardians with zero required approvals disables the recovery of the wallet.
+     *
+     * Emits a {ConfigureRecovery} event.
+     * Emits a {CancelRecovery} event if there is a pending recovery.
+     *
+     * Requirements:
+     *
+     * - The guardians must not contain the zero address or duplicates.
+     * - The number of required guardian approvals must not be zero and must not exceed the number of guardians,
+     *   unless the array of guardians is empty.
+     * - The delay must not be less than {MIN_DELAY} and must not exceed {MAX_DELAY},
+     *   unless the array of guardians is empty.
+     *
+     * @param guardians The array of the guardians.
+     * @param requiredGuardianApprovals The number of guardian approvals required to execute a recovery.
+     * @param delay The amount of time after the proposal before a recovery can be executed.
+     */
+    function configureRecovery(address[] calldata guardians, uint16 requiredGuardianApprovals, uint120 delay) external {
+        address wallet = msg.sender;
+        RecoveryConfig storage config = _configs[wallet];
+
+        uint256 len = config.guardians.length;
+        for (uint256 i = 0; i < len; i++) {
+            _isGuardian[wallet][config.guardians[i]] = false;
+        }
+
+        len = guardians.length;
+        for (uint256 i = 0; i < len; i++) {
+            address guardian = guardians[i];
+            if (guardian == address(0) || _isGuardian[wallet][guardian]) {
+                revert InvalidGuardians();
+            }
+            _isGuardian[wallet][guardian] = true;
+        }
+        if (len == 0 ? requiredGuardianApprovals != 0 : requiredGuardianApprovals == 0) {
+            revert InvalidRequiredGuardianApprovals();
+        }
+        if (requiredGuardianApprovals > len) {
+            revert InvalidRequiredGuardianApprovals();
+        }
+        if (len != 0 && (delay < MIN_DELAY || delay > MAX_DELAY)) {
+            revert InvalidRecoveryDelay();
+        }
+
+        config.guardians = guardians;
+        config.requiredGuardianApprovals = requiredGuardianApprovals;
+        config.delay = delay;
+
+        emit ConfigureRecovery(wallet, guardians, requiredGuardianApprovals, delay);
+
+        Recovery storage recovery = _recoveries[wallet];
+        if (recovery.executableAt != 0) {
+            emit CancelRecovery(wallet, recovery.nonce);
+            delete _recoveries[wallet];
+        }
+    }
+
+    /**
+     * @dev Proposes a recovery of a wallet and approves it on behalf of the caller.
+     *
+     * Emits a {ProposeRecovery} event.
+     * Emits an {ApproveRecovery} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be a guardian of the wallet.
+     * - The wallet must not have a pending recovery.
+     * - The array of new owners must not be empty and must not contain the zero address or duplicates.
+     * - The number of required approvals must not be zero and must not exceed the number of new owners.
+     *
+     * @param wallet The address of the wallet.
+     * @param newOwners The array of the wallet owners after the recovery.
+     * @param newRequiredApprovals The number of approvals required by the wallet after the recovery.
+     */
+    function proposeRecovery(
+        address wallet,
+        address[] calldata newOwners,
+        uint16 newRequiredApprovals
+    ) external onlyGuardian(wallet) {
+        Recovery storage recovery = _recoveries[wallet];
+        if (recovery.executableAt != 0) {
+            revert RecoveryAlreadyPending();
+        }
+        _checkNewOwners(newOwners, newRequiredApprovals);
+
+        uint64 nonce = ++_recoveryNonces[wallet];
+        uint64 executableAt = uint64(block.timestamp + _configs[wallet].delay);
+        recovery.nonce = nonce;
+        recovery.executableAt = executableAt;
+        recovery.newRequiredApprovals = newRequiredApprovals;
+        recovery.newOwners = newOwners;
+
+        emit ProposeRecovery(wallet, nonce, msg.sender, newOwners, newRequiredApprovals, executableAt);
+
+        _approveRecovery(wallet, recovery);
+    }
+
+    /**
+     * @dev Approves the pending recovery of a wallet.
+     *
+     * Emits an {ApproveRecovery} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be a guardian of the wallet.
+     * - The wallet must have a pending recovery.
+     * - The pending recovery must not be already approved by the caller.
+     *
+     * @param wallet The address of the wallet.
+     */
+    function approveRecovery(address wallet) external onlyGuardian(wallet) {
+        _approveRecovery(wallet, _getPendingRecovery(wallet));
+    }
+
+    /**
+     * @dev Approves the cancellation of the pending recovery of a wallet.
+     *
+     * The recovery is cancelled once the number of cancellation approvals reaches
+     * the number of guardian approvals required to execute a recovery.
+     *
+     * Emits an {ApproveRecoveryCancellation} event.
+     * Emits a {CancelRecovery} event if the recovery is cancelled.
+     *
+     * Requirements:
+     *
+     * - The caller must be a guardian of the wallet.
+     * - The wallet must have a pending recovery.
+     * - The cancellation must not be already approved by the caller.
+     *
+     * @param wallet The address of the wallet.
+     */
+    function cancelRecovery(address wallet) external onlyGuardian(wallet) {
+        Recovery storage recovery = _getPendingRecovery(wallet);
+        uint256 nonce = recovery.nonce;
+        if (_recoveryCancellations[wallet][nonce][msg.sender]) {
+            revert RecoveryCancellationAlreadyApproved();
+        }
+
+        _recoveryCancellations[wallet][nonce][msg.sender] = true;
+        recovery.cancellationCount += 1;
+
+        emit ApproveRecoveryCancellation(wallet, nonce, msg.sender);
+
+        if (recovery.cancellationCount >= _configs[wallet].requiredGuardianApprovals) {
+            emit CancelRecovery(wallet, nonce);
+            delete _recoveries[wallet];
+        }
+    }
+
+    /**
+     * @dev Vetoes the pending recovery of a wallet.
+     *
+     * Emits a {VetoRecovery} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be a current owner of the wallet.
+     * - The wallet must have a pending recovery.
+     *
+     * @param wallet The address of the wallet.
+     */
+    function vetoRecovery(address wallet) external {
+        if (!IMultiSigWallet(wallet).isOwner(msg.sender)) {
+            revert UnauthorizedCaller();
+        }
+        Recovery storage recovery = _getPendingRecovery(wallet);
+
+        emit VetoRecovery(wallet, recovery.nonce, msg.sender);
+
+        delete _recoveries[wallet];
+    }
+
+    /**
+     * @dev Executes the pending recovery of a wallet by replacing its owners.
+     *
+     * Emits an {ExecuteRecovery} event.
+     *
+     * Requirements:
+     *
+     * - The wallet must have a pending recovery.
+     * - The pending recovery must have collected the required number of guardian approvals.
+     * - The recovery delay must have passed since the proposal.
+     * - The module must be enabled in the wallet.
+     * - The wallet must accept the new owners, e.g. its registry must not reject the notification.
+     *
+     * @param wallet The address of the wallet.
+     */
+    function executeRecovery(address wallet) external {
+        Recovery storage recovery = _getPendingRecovery(wallet);
+        if (recovery.approvalCount < _configs[wallet].requiredGuardianApprovals) {
+            revert NotEnoughGuardianApprovals();
+        }
+        if (recovery.executableAt > block.timestamp) {
+            revert RecoveryDelayNotEnded();
+        }
+
+        uint256 nonce = recovery.nonce;
+        bytes memory data = abi.encodeCall(
+            IMultiSigWallet.configureOwners,
+            (recovery.newOwners, recovery.newRequiredApprovals)
+        );
+        delete _recoveries[wallet];
+
+        emit ExecuteRecovery(wallet, nonce, msg.sender);
+
+        (bool success, bytes memory result) = IMultiSigWallet(wallet).execFromModule(wallet, 0, data);
+        if (!success) {
+            revert RecoveryFailed(result);
+        }
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Returns the recovery settings of a wallet.
+     * @param wallet The address of the wallet.
+     */
+    function getRecoveryConfig(address wallet) external view returns (RecoveryConfig memory) {
+        return _configs[wallet];
+    }
+
+    /**
+     * @dev Returns the pending recovery of a wallet, which has zero `executableAt` if there is none.
+     * @param wallet The address of the wallet.
+     */
+    function getRecovery(address wallet) external view returns (Recovery memory) {
+        return _recoveries[wallet];
+    }
+
+    /**
+     * @dev Checks if an account is a guardian of a wallet.
+     * @param wallet The address of the wallet.
+     * @param account The address of the account to check.
+     */
+    function isGuardian(address wallet, address account) external view returns (bool) {
+        return _isGuardian[wallet][account];
+    }
+
+    /**
+     * @dev Checks if a guardian has approved the recovery of a wallet with a given nonce.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param guardian The address of the guardian.
+     */
+    function isRecoveryApproved(address wallet, uint256 nonce, address guardian) external view returns (bool) {
+        return _recoveryApprovals[wallet][nonce][guardian];
+    }
+
+    /**
+     * @dev Checks if a guardian has approved the cancellation of the recovery of a wallet with a given nonce.
+     * @param wallet The address of the wallet.
+     * @param nonce The nonce of the recovery.
+     * @param guardian The address of the guardian.
+     */
+    function isRecoveryCancellationApproved(
+        address wallet,
+        uint256 nonce,
+        address guardian
+    ) external view returns (bool) {
+        return _recoveryCancellations[wallet][nonce][guardian];
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Approves a pending recovery on behalf of the caller.
+     *
+     * Emits an {ApproveRecovery} event.
+     */
+    function _approveRecovery(address wallet, Recovery storage recovery) internal {
+        uint256 nonce = recovery.nonce;
+        if (_recoveryApprovals[wallet][nonce][msg.sender]) {
+            revert RecoveryAlreadyApproved();
+        }
+
+        _recoveryApprovals[wallet][nonce][msg.sender] = true;
+        recovery.approvalCount += 1;
+
+        emit ApproveRecovery(wallet, nonce, msg.sender);
+    }
+
+    /**
+     * @dev Checks that the proposed owners and the number of required approvals are valid for a wallet.
+     *
+     * The checks repeat the ones of {IMultiSigWallet-configureOwners}, so an invalid recovery is rejected
+     * on proposal instead of blocking the recovery of the wallet until it is vetoed or cancelled.
+     */
+    function _checkNewOwners(address[] calldata newOwners, uint16 newRequiredApprovals) internal pure {
+        uint256 len = newOwners.length;
+        if (len == 0) {
+            revert EmptyOwnersArray();
+        }
+        for (uint256 i = 0; i < len; i++) {
+            address owner = newOwners[i];
+            if (owner == address(0)) {
+                revert ZeroOwnerAddress();
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (newOwners[j] == owner) {
+                    revert DuplicateOwnerAddress();
+                }
+            }
+        }
+        if (newRequiredApprovals == 0 || newRequiredApprovals > len) {
+            revert InvalidRequiredApprovals();
+        }
+    }
+
+    /**
+     * @dev Returns the pending recovery of a wallet or reverts if there is none.
+     */
+    function _getPendingRecovery(address wallet) internal view returns (Recovery storage recovery) {
+        recovery = _recoveries[wallet];
+        if (recovery.executableAt == 0) {
+            revert RecoveryNotPending();
+        }
+    }
+}
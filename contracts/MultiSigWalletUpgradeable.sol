@@ -47,6 +47,29 @@ contract MultiSigWalletUpgradeable is Initializable, UUPSUpgradeable, MultiSigWa
         _configureOwners(newOwners, newRequiredApprovals);
     }
 
+    /**
+     * @dev Initializer of the upgradeable contract that also configures the registry notified about owner changes.
+     *
+     * The registry is configured after the initial owners, so it is not notified within the initialization.
+     *
+     * Requirements:
+     *
+     * - The same as for the {initialize} function.
+     *
+     * @param newOwners An array of wallet owners.
+     * @param newRequiredApprovals The number of required approvals to execute a transaction.
+     * @param newRegistry The address of the registry.
+     */
+    function initializeWithRegistry(
+        address[] memory newOwners,
+        uint16 newRequiredApprovals,
+        address newRegistry
+    ) external initializer {
+        _configureExpirationTime(10 days);
+        _configureOwners(newOwners, newRequiredApprovals);
+        _configureRegistry(newRegistry);
+    }
+
     // ------------------ Internal functions ---------------------- //
 
     /**
@@ -7,6 +7,43 @@ pragma solidity ^0.8.0;
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
  */
 interface IMultiSigWalletTypes {
+    /**
+     * @dev Possible statuses of a transaction.
+     *
+     * The values:
+     *
+     * - Pending ----- The transaction is waiting for the required number of approvals, for the wallet
+     *                 to be unpaused or for the preceding transactions in the ordered execution mode.
+     * - Cooldown ---- The transaction is on cooldown and cannot be executed yet.
+     * - Executable -- The transaction has enough approvals and can be executed.
+     * - Expired ----- The transaction has expired and can no longer be executed.
+     * - Executed ---- The transaction has been executed.
+     * - Cancelled --- The transaction has been cancelled.
+     * - Failed ------ The call of the transaction has failed in the try execution mode.
+     */
+    enum TransactionStatus {
+        Pending,
+        Cooldown,
+        Executable,
+        Expired,
+        Executed,
+        Cancelled,
+        Failed
+    }
+
+    /**
+     * @dev Possible operations of a transaction.
+     *
+     * The values:
+     *
+     * - Call ----------- The transaction data is sent to the receiver with a regular call.
+     * - DelegateCall --- The receiver code is executed in the context of the wallet with a delegate call.
+     */
+    enum Operation {
+        Call,
+        DelegateCall
+    }
+
     /**
      * @dev The data of a single transaction.
      *
@@ -14,19 +51,79 @@ interface IMultiSigWalletTypes {
      *
      * - to ---------- The address of the transaction receiver.
      * - executed ---- The execution status of the transaction. True if executed.
+     * - cancelled --- The cancellation status of the transaction. True if cancelled.
+     * - bundled ----- The bundle status of the transaction. True if the transaction is a bundle of calls.
+     * - operation --- The operation used to execute the transaction, see {Operation}.
+     * - gasLimit ---- The amount of gas forwarded to the call of the transaction. Zero means all available gas.
      * - cooldown ---- The timestamp before which the transaction cannot be executed.
      * - expiration -- The timestamp after which the transaction cannot be executed.
      * - value ------- The value in native tokens to be sent along with the transaction.
      * - data -------- The data to be sent along with the transaction.
+     *
+     * For a bundle of calls the receiver is the wallet itself, the value is the total value of the calls
+     * and the data is the ABI-encoded array of the calls, see {Call}.
      */
     struct Transaction {
         address to;
         bool executed;
+        bool cancelled;
+        bool bundled;
+        Operation operation;
+        uint64 gasLimit;
         uint128 cooldown;
         uint128 expiration;
         uint256 value;
         bytes data;
     }
+
+    /**
+     * @dev The data of a single call within a bundle transaction.
+     *
+     * Fields:
+     *
+     * - to ------ The address of the call receiver.
+     * - value --- The value in native tokens to be sent along with the call.
+     * - data ---- The data to be sent along with the call.
+     */
+    struct Call {
+        address to;
+        uint256 value;
+        bytes data;
+    }
+
+    /**
+     * @dev The options of a transaction selected on submission.
+     *
+     * Fields:
+     *
+     * - operation -------- The operation used to execute the transaction, see {Operation}.
+     * - gasLimit --------- The amount of gas forwarded to the call of the transaction. Zero means all available gas.
+     * - cooldownTime ----- The time that must elapse after submission before the transaction can be executed.
+     *                      Zero means the default cooldown time.
+     * - expirationTime --- The time after the cooldown during which the transaction can be executed.
+     *                      Zero means the default expiration time.
+     */
+    struct SubmitOptions {
+        Operation operation;
+        uint64 gasLimit;
+        uint120 cooldownTime;
+        uint120 expirationTime;
+    }
+
+    /**
+     * @dev The execution policy overriding the wallet defaults for particular transactions.
+     *
+     * Fields:
+     *
+     * - enabled ------------- The status of the policy. True if the policy is applied.
+     * - requiredApprovals --- The number of approvals required to execute a matching transaction.
+     * - cooldownTime -------- The cooldown time applied to a matching transaction on submission.
+     */
+    struct Policy {
+        bool enabled;
+        uint16 requiredApprovals;
+        uint120 cooldownTime;
+    }
 }
 
 /**
@@ -44,6 +141,32 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     event Deposit(address indexed sender, uint256 amount);
 
+    /**
+     * @dev Emitted when an ERC-721 token is deposited to the contract.
+     * @param token The address of the ERC-721 token contract.
+     * @param from The address of the previous token owner.
+     * @param tokenId The ID of the deposited token.
+     */
+    event DepositERC721(address indexed token, address indexed from, uint256 indexed tokenId);
+
+    /**
+     * @dev Emitted when ERC-1155 tokens of a single type are deposited to the contract.
+     * @param token The address of the ERC-1155 token contract.
+     * @param from The address of the previous tokens owner.
+     * @param id The ID of the deposited token type.
+     * @param amount The amount of deposited tokens.
+     */
+    event DepositERC1155(address indexed token, address indexed from, uint256 id, uint256 amount);
+
+    /**
+     * @dev Emitted when ERC-1155 tokens of multiple types are deposited to the contract.
+     * @param token The address of the ERC-1155 token contract.
+     * @param from The address of the previous tokens owner.
+     * @param ids The array of IDs of the deposited token types.
+     * @param amounts The array of amounts of deposited tokens for each type.
+     */
+    event DepositERC1155Batch(address indexed token, address indexed from, uint256[] ids, uint256[] amounts);
+
     /**
      * @dev Emitted when a new transaction is submitted.
      * @param owner The address that submitted the transaction.
@@ -72,6 +195,64 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     event Execute(address indexed owner, uint256 indexed txId);
 
+    /**
+     * @dev Emitted when a transaction is successfully executed.
+     * @param txId The ID of the executed transaction.
+     * @param resultHash The keccak256 hash of the data returned by the call of the transaction.
+     */
+    event ExecuteResult(uint256 indexed txId, bytes32 resultHash);
+
+    /**
+     * @dev Emitted when the gas spent on an execution is refunded to the caller.
+     * @param executor The address of the caller who executed the transactions.
+     * @param amount The refunded amount of native tokens.
+     */
+    event Refund(address indexed executor, uint256 amount);
+
+    /**
+     * @dev Emitted when the call of a transaction fails in the try execution mode.
+     * @param txId The ID of the failed transaction.
+     * @param data The data returned by the failed call.
+     */
+    event ExecutionFailure(uint256 indexed txId, bytes data);
+
+    /**
+     * @dev Emitted when a transaction is cancelled.
+     * @param txId The ID of the transaction that is cancelled.
+     */
+    event Cancel(uint256 indexed txId);
+
+    /**
+     * @dev Emitted when a message hash is signed by the wallet.
+     * @param messageHash The hash of the message that is signed.
+     */
+    event SignMessage(bytes32 indexed messageHash);
+
+    /**
+     * @dev Emitted when an execution policy for a transaction receiver is configured.
+     * @param to The address of the transaction receiver.
+     * @param enabled The status of the policy.
+     * @param requiredApprovals The number of approvals required by the policy.
+     * @param cooldownTime The cooldown time applied by the policy.
+     */
+    event ConfigureDestinationPolicy(address indexed to, bool enabled, uint256 requiredApprovals, uint256 cooldownTime);
+
+    /**
+     * @dev Emitted when an execution policy for a function selector of a transaction receiver is configured.
+     * @param to The address of the transaction receiver.
+     * @param selector The function selector of the transaction data.
+     * @param enabled The status of the policy.
+     * @param requiredApprovals The number of approvals required by the policy.
+     * @param cooldownTime The cooldown time applied by the policy.
+     */
+    event ConfigureSelectorPolicy(
+        address indexed to,
+        bytes4 indexed selector,
+        bool enabled,
+        uint256 requiredApprovals,
+        uint256 cooldownTime
+    );
+
     /**
      * @dev Emitted when wallet owners are configured.
      * @param newOwners The array of addresses that became the wallet owners.
@@ -79,6 +260,38 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     event ConfigureOwners(address[] newOwners, uint256 newRequiredApprovals);
 
+    /**
+     * @dev Emitted when wallet owners are configured with voting weights.
+     * @param owners The array of the wallet owners.
+     * @param weights The array of the voting weights of the owners.
+     */
+    event ConfigureOwnerWeights(address[] owners, uint16[] weights);
+
+    /**
+     * @dev Emitted when a new owner is added to the wallet.
+     * @param owner The address of the added owner.
+     */
+    event AddOwner(address indexed owner);
+
+    /**
+     * @dev Emitted when an owner is removed from the wallet.
+     * @param owner The address of the removed owner.
+     */
+    event RemoveOwner(address indexed owner);
+
+    /**
+     * @dev Emitted when an owner of the wallet is replaced with another address.
+     * @param oldOwner The address of the replaced owner.
+     * @param newOwner The address of the new owner.
+     */
+    event ReplaceOwner(address indexed oldOwner, address indexed newOwner);
+
+    /**
+     * @dev Emitted when the number of required approvals is changed.
+     * @param newRequiredApprovals The new number of approvals required to execute a transaction.
+     */
+    event ChangeThreshold(uint256 newRequiredApprovals);
+
     /**
      * @dev Emitted when a transaction expiration time is configured.
      * @param newExpirationTime The new value of the expiration time.
@@ -91,6 +304,112 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     event ConfigureCooldownTime(uint256 newCooldownTime);
 
+    /**
+     * @dev Emitted when the maximum cooldown and expiration times requested for transactions are configured.
+     * @param newMaxCooldownTime The new maximum cooldown time.
+     * @param newMaxExpirationTime The new maximum expiration time.
+     */
+    event ConfigureMaxTransactionTimes(uint256 newMaxCooldownTime, uint256 newMaxExpirationTime);
+
+    /**
+     * @dev Emitted when the ordered execution of transactions is enabled or disabled.
+     * @param enabled The new status of the ordered execution.
+     */
+    event ConfigureOrderedExecution(bool enabled);
+
+    /**
+     * @dev Emitted when the try execution mode is enabled or disabled.
+     * @param enabled The new status of the try execution mode.
+     */
+    event ConfigureTryExecution(bool enabled);
+
+    /**
+     * @dev Emitted when the maximum gas price of execution refunds is configured.
+     * @param maxGasPrice The new maximum gas price, zero if refunds are disabled.
+     */
+    event ConfigureGasRefund(uint256 maxGasPrice);
+
+    /**
+     * @dev Emitted when the daily limit of native token transfers is configured.
+     * @param newDailyLimit The new value of the daily limit.
+     */
+    event ConfigureDailyLimit(uint256 newDailyLimit);
+
+    /**
+     * @dev Emitted when a target of delegate call transactions is allowed or disallowed.
+     * @param target The address of the target contract.
+     * @param allowed The new allowance status of the target.
+     */
+    event ConfigureDelegateCallTarget(address indexed target, bool allowed);
+
+    /**
+     * @dev Emitted when the registry notified about owner changes is configured.
+     * @param newRegistry The address of the new registry.
+     */
+    event ConfigureRegistry(address indexed newRegistry);
+
+    /**
+     * @dev Emitted when the proposer role of an account is granted or revoked.
+     * @param account The address of the account.
+     * @param enabled The new status of the role.
+     */
+    event ConfigureProposer(address indexed account, bool enabled);
+
+    /**
+     * @dev Emitted when the executor role of an account is granted or revoked.
+     * @param account The address of the account.
+     * @param enabled The new status of the role.
+     */
+    event ConfigureExecutor(address indexed account, bool enabled);
+
+    /**
+     * @dev Emitted when the execution of approved transactions by any account is enabled or disabled.
+     * @param enabled The new status of the public execution.
+     */
+    event ConfigurePublicExecution(bool enabled);
+
+    /**
+     * @dev Emitted when the guard that checks executed transactions is configured.
+     * @param newGuard The address of the new guard.
+     */
+    event ConfigureGuard(address indexed newGuard);
+
+    /**
+     * @dev Emitted when a module is enabled.
+     * @param module The address of the module.
+     */
+    event EnableModule(address indexed module);
+
+    /**
+     * @dev Emitted when a module is disabled.
+     * @param module The address of the module.
+     */
+    event DisableModule(address indexed module);
+
+    /**
+     * @dev Emitted when a call executed by a module succeeds.
+     * @param module The address of the module.
+     */
+    event ExecutionFromModuleSuccess(address indexed module);
+
+    /**
+     * @dev Emitted when a call executed by a module fails.
+     * @param module The address of the module.
+     */
+    event ExecutionFromModuleFailure(address indexed module);
+
+    /**
+     * @dev Emitted when the wallet is paused by an owner.
+     * @param owner The address of the owner who paused the wallet.
+     * @param reason The reason of the pause.
+     */
+    event Pause(address indexed owner, string reason);
+
+    /**
+     * @dev Emitted when the wallet is unpaused.
+     */
+    event Unpause();
+
     // ------------------ Transactional functions ----------------- //
 
     /**
@@ -124,6 +443,61 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
         bytes calldata data
     ) external;
 
+    /**
+     * @dev Submits a new transaction with the selected options.
+     *
+     * A delegate call can target only an allowed contract and cannot carry a value, see {configureDelegateCallTarget}.
+     * The requested cooldown and expiration times must not be less than the ones the wallet applies by default
+     * (including the cooldown time of a matching execution policy) and must not exceed the configured maximums,
+     * see {configureMaxTransactionTimes}. The executor must provide enough gas for the gas limit, see {execute}.
+     *
+     * Emits a {Submit} event.
+     *
+     * @param to The address of the transaction receiver.
+     * @param value The value of the transaction in native tokens.
+     * @param data The input data of the transaction.
+     * @param options The options of the transaction, see {SubmitOptions}.
+     */
+    function submit(
+        address to, // Tools: prevent Prettier one-liner
+        uint256 value,
+        bytes calldata data,
+        SubmitOptions calldata options
+    ) external;
+
+    /**
+     * @dev Submits and approves a new transaction with the selected options.
+     *
+     * See the requirements of the options in the matching {submit} function.
+     *
+     * Emits a {Submit} event.
+     * Emits an {Approve} event.
+     *
+     * @param to The address of the transaction receiver.
+     * @param value The value of the transaction in native tokens.
+     * @param data The input data of the transaction.
+     * @param options The options of the transaction, see {SubmitOptions}.
+     */
+    function submitAndApprove(
+        address to, // Tools: prevent Prettier one-liner
+        uint256 value,
+        bytes calldata data,
+        SubmitOptions calldata options
+    ) external;
+
+    /**
+     * @dev Submits a new transaction that executes a bundle of calls atomically.
+     *
+     * The calls are executed in the order they are passed, and the transaction is reverted if any of them fails.
+     * The execution policies matching the calls are applied to the bundle, the maximum number of required approvals
+     * and the maximum cooldown time across the calls are used for it.
+     *
+     * Emits a {Submit} event.
+     *
+     * @param calls The array of calls to execute.
+     */
+    function submitMulti(Call[] calldata calls) external;
+
     /**
      * @dev Approves a previously submitted transaction.
      *
@@ -142,21 +516,32 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function approveBatch(uint256[] calldata txIds) external;
 
+    /**
+     * @dev Approves a previously submitted transaction on behalf of an owner using an off-chain EIP-712 signature.
+     *
+     * Emits an {Approve} event.
+     *
+     * @param txId The ID of the transaction to approve.
+     * @param signature The EIP-712 signature of the transaction made by a wallet owner.
+     */
+    function approveBySig(uint256 txId, bytes calldata signature) external;
+
     /**
      * @dev Approves and executes a previously submitted transaction.
      *
      * Emits an {Approve} event.
-     * Emits an {Execute} event.
+     * Emits {Execute} and {ExecuteResult} events.
      *
      * @param txId The ID of the transaction to approve and execute.
+     * @return result The data returned by the call of the transaction, see {execute}.
      */
-    function approveAndExecute(uint256 txId) external;
+    function approveAndExecute(uint256 txId) external returns (bytes memory result);
 
     /**
      * @dev Approves and executes a batch of previously submitted transactions.
      *
      * Emits an {Approve} event for each transaction.
-     * Emits an {Execute} event for each transaction.
+     * Emits {Execute} and {ExecuteResult} events for each transaction.
      *
      * @param txIds The ID array of the transactions to approve and execute.
      */
@@ -165,20 +550,62 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
     /**
      * @dev Executes a previously submitted transaction.
      *
-     * Emits an {Execute} event.
+     * Emits {Execute} and {ExecuteResult} events.
+     *
+     * If the transaction has a gas limit, the execution is reverted before the call if the caller has not provided
+     * enough gas to forward the whole limit, see the 63/64 rule of EIP-150. Without a gas limit, the execution is
+     * reverted if the failed call consumed all the gas forwarded to it, so an under-funded call is never
+     * reported as failed, see {configureTryExecution}.
+     * If gas refunds are enabled, the gas spent is refunded to the caller, see {configureGasRefund}.
+     *
+     * @param txId The ID of the transaction to execute.
+     * @return result The data returned by the call of the transaction. It is empty for a bundle transaction
+     * and contains the revert data if the call failed in the try execution mode.
+     */
+    function execute(uint256 txId) external returns (bytes memory result);
+
+    /**
+     * @dev Approves a previously submitted transaction using off-chain EIP-712 signatures and executes it.
+     *
+     * Emits an {Approve} event for each signature.
+     * Emits {Execute} and {ExecuteResult} events.
      *
      * @param txId The ID of the transaction to execute.
+     * @param signatures The array of EIP-712 signatures of the transaction made by wallet owners.
      */
-    function execute(uint256 txId) external;
+    function executeWithSignatures(uint256 txId, bytes[] calldata signatures) external;
 
     /**
      * @dev Executes a batch of previously submitted transactions.
      *
-     * Emits an {Execute} event for each transaction.
+     * In the try execution mode the batch continues if the call of a transaction fails.
+     *
+     * Emits {Execute} and {ExecuteResult} events or an {ExecutionFailure} event for each transaction.
      *
      * @param txIds The ID array of the transactions to execute.
+     * @return results The array of the execution results, false for each transaction whose call failed.
+     */
+    function executeBatch(uint256[] calldata txIds) external returns (bool[] memory results);
+
+    /**
+     * @dev Executes a call from the wallet on behalf of an enabled module without submitting a transaction.
+     *
+     * The call does not require approvals and is not checked by the guard and the execution policies.
+     * A failed call does not revert, its result is returned to the module instead.
+     *
+     * Emits an {ExecutionFromModuleSuccess} or {ExecutionFromModuleFailure} event.
+     *
+     * @param to The address of the call receiver.
+     * @param value The value in native tokens to be sent along with the call.
+     * @param data The data to be sent along with the call.
+     * @return success True if the call succeeded.
+     * @return result The data returned by the call.
      */
-    function executeBatch(uint256[] calldata txIds) external;
+    function execFromModule(
+        address to,
+        uint256 value,
+        bytes calldata data
+    ) external returns (bool success, bytes memory result);
 
     /**
      * @dev Revokes the approved status from a transaction.
@@ -198,6 +625,33 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function revokeBatch(uint256[] calldata txIds) external;
 
+    /**
+     * @dev Cancels a previously submitted transaction so it can no longer be approved, revoked or executed.
+     *
+     * Emits a {Cancel} event.
+     *
+     * @param txId The ID of the transaction to cancel.
+     */
+    function cancel(uint256 txId) external;
+
+    /**
+     * @dev Cancels a batch of previously submitted transactions.
+     *
+     * Emits a {Cancel} event for each transaction.
+     *
+     * @param txIds The ID array of the transactions to cancel.
+     */
+    function cancelBatch(uint256[] calldata txIds) external;
+
+    /**
+     * @dev Marks a message hash as signed by the wallet for the purposes of ERC-1271 signature validation.
+     *
+     * Emits a {SignMessage} event.
+     *
+     * @param messageHash The hash of the message to sign.
+     */
+    function signMessage(bytes32 messageHash) external;
+
     /**
      * @dev Configures wallet owners.
      *
@@ -208,6 +662,68 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function configureOwners(address[] memory newOwners, uint16 newRequiredApprovals) external;
 
+    /**
+     * @dev Configures wallet owners with voting weights.
+     *
+     * The number of required approvals is expressed in the total weight of the approving owners.
+     * Configuring owners with {configureOwners} resets the weights of all the owners to the default one.
+     *
+     * Emits a {ConfigureOwners} event.
+     * Emits a {ConfigureOwnerWeights} event.
+     *
+     * @param newOwners The array of addresses to become the wallet owners.
+     * @param newWeights The array of the voting weights of the new owners.
+     * @param newRequiredApprovals The new total weight of approvals required to execute a transaction.
+     */
+    function configureWeightedOwners(
+        address[] memory newOwners,
+        uint16[] memory newWeights,
+        uint16 newRequiredApprovals
+    ) external;
+
+    /**
+     * @dev Adds a new owner to the wallet and sets the number of required approvals.
+     *
+     * Emits an {AddOwner} event.
+     * Emits a {ChangeThreshold} event if the number of required approvals changes.
+     *
+     * @param owner The address of the new owner.
+     * @param newRequiredApprovals The new number of approvals required to execute a transaction.
+     */
+    function addOwner(address owner, uint16 newRequiredApprovals) external;
+
+    /**
+     * @dev Removes an owner from the wallet and sets the number of required approvals.
+     *
+     * The last owner in the list of owners takes the position of the removed one.
+     *
+     * Emits a {RemoveOwner} event.
+     * Emits a {ChangeThreshold} event if the number of required approvals changes.
+     *
+     * @param owner The address of the owner to remove.
+     * @param newRequiredApprovals The new number of approvals required to execute a transaction.
+     */
+    function removeOwner(address owner, uint16 newRequiredApprovals) external;
+
+    /**
+     * @dev Replaces an owner of the wallet with a new address keeping its position in the list of owners.
+     *
+     * Emits a {ReplaceOwner} event.
+     *
+     * @param oldOwner The address of the owner to replace.
+     * @param newOwner The address of the new owner.
+     */
+    function replaceOwner(address oldOwner, address newOwner) external;
+
+    /**
+     * @dev Changes the number of approvals required to execute a transaction.
+     *
+     * Emits a {ChangeThreshold} event.
+     *
+     * @param newRequiredApprovals The new number of approvals required to execute a transaction.
+     */
+    function changeThreshold(uint16 newRequiredApprovals) external;
+
     /**
      * @dev Configures the expiration time that will be applied to new transactions.
      *
@@ -226,14 +742,257 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function configureCooldownTime(uint120 newCooldownTime) external;
 
+    /**
+     * @dev Configures the maximum cooldown and expiration times that can be requested for new transactions.
+     *
+     * The default times of the wallet can always be requested, even if the maximums are less than them.
+     *
+     * Emits a {ConfigureMaxTransactionTimes} event.
+     *
+     * @param newMaxCooldownTime The new maximum cooldown time.
+     * @param newMaxExpirationTime The new maximum expiration time.
+     */
+    function configureMaxTransactionTimes(uint120 newMaxCooldownTime, uint120 newMaxExpirationTime) external;
+
+    /**
+     * @dev Enables or disables the ordered execution of transactions.
+     *
+     * In the ordered mode only the transaction returned by {nextExecutableTxId} can be executed, except for
+     * the plain calls of the {cancel}, {cancelBatch} and {configureOrderedExecution} functions of the wallet,
+     * so a transaction blocking the following ones can always be removed.
+     *
+     * Emits a {ConfigureOrderedExecution} event.
+     *
+     * @param enabled The new status of the ordered execution.
+     */
+    function configureOrderedExecution(bool enabled) external;
+
+    /**
+     * @dev Enables or disables the try execution mode.
+     *
+     * In the try mode a transaction whose call fails is marked as failed and cannot be executed again,
+     * instead of reverting the whole execution.
+     *
+     * A transaction without a gas limit whose call consumes all the gas forwarded to it cannot be marked
+     * as failed, its execution is always reverted with the {NotEnoughGas} error. In the ordered execution mode
+     * such a transaction blocks the following ones until it is cancelled or expires, so a gas limit should be set
+     * for the transactions calling untrusted contracts.
+     *
+     * Emits a {ConfigureTryExecution} event.
+     *
+     * @param enabled The new status of the try execution mode.
+     */
+    function configureTryExecution(bool enabled) external;
+
+    /**
+     * @dev Configures refunds of the gas spent by the callers of the execution functions.
+     *
+     * The refund is paid from the wallet balance at the gas price of the execution capped by the given maximum.
+     * It is paid once per call of {execute}, {approveAndExecute}, {executeWithSignatures}, {executeBatch}
+     * or {approveAndExecuteBatch} and is limited by the wallet balance. Only the gas spent on the successfully
+     * executed transactions is refunded, a transaction marked as failed in the try execution mode is not.
+     *
+     * Emits a {ConfigureGasRefund} event.
+     *
+     * @param newMaxGasPrice The new maximum gas price of refunds, zero to disable refunds.
+     */
+    function configureGasRefund(uint256 newMaxGasPrice) external;
+
+    /**
+     * @dev Configures the execution policy applied to all transactions sent to a receiver.
+     *
+     * The policy is overridden by a selector policy configured for the same receiver if any.
+     *
+     * Emits a {ConfigureDestinationPolicy} event.
+     *
+     * @param to The address of the transaction receiver.
+     * @param policy The policy to apply. A policy with the `enabled` field set to false removes the existing one.
+     */
+    function configureDestinationPolicy(address to, Policy calldata policy) external;
+
+    /**
+     * @dev Configures the execution policy applied to transactions calling a function of a receiver.
+     *
+     * Emits a {ConfigureSelectorPolicy} event.
+     *
+     * @param to The address of the transaction receiver.
+     * @param selector The function selector of the transaction data.
+     * @param policy The policy to apply. A policy with the `enabled` field set to false removes the existing one.
+     */
+    function configureSelectorPolicy(address to, bytes4 selector, Policy calldata policy) external;
+
+    /**
+     * @dev Configures the daily limit of native tokens that can be transferred with a single approval.
+     *
+     * A transaction with empty data and a non-zero value that does not exceed the remaining daily allowance
+     * can be executed once it is approved by a single owner, unless a destination policy of the receiver
+     * requires more approvals than the wallet. The zero limit disables such transfers.
+     *
+     * Emits a {ConfigureDailyLimit} event.
+     *
+     * @param newDailyLimit The new value of the daily limit.
+     */
+    function configureDailyLimit(uint256 newDailyLimit) external;
+
+    /**
+     * @dev Allows or disallows a contract as a target of delegate call transactions.
+     *
+     * Only allowed targets can be executed with the {Operation.DelegateCall} operation.
+     * An allowed target gets full control over the storage of the wallet, so it must be audited before it is allowed.
+     * After a delegate call only the array of owners, their weights and the number of required approvals
+     * are checked to stay unchanged. Changes of other settings like proposers, executors, modules, the guard
+     * or the pause are not detected.
+     *
+     * Emits a {ConfigureDelegateCallTarget} event.
+     *
+     * @param target The address of the target contract.
+     * @param allowed The new allowance status of the target.
+     */
+    function configureDelegateCallTarget(address target, bool allowed) external;
+
+    /**
+     * @dev Configures the registry notified each time the wallet owners are configured.
+     *
+     * The zero address disables the notifications.
+     *
+     * Emits a {ConfigureRegistry} event.
+     *
+     * @param newRegistry The address of the new registry.
+     */
+    function configureRegistry(address newRegistry) external;
+
+    /**
+     * @dev Grants or revokes the proposer role of an account.
+     *
+     * A proposer can submit transactions without being a wallet owner, but cannot approve them.
+     * Wallet owners can always submit transactions.
+     *
+     * Emits a {ConfigureProposer} event.
+     *
+     * @param account The address of the account.
+     * @param enabled The new status of the role.
+     */
+    function configureProposer(address account, bool enabled) external;
+
+    /**
+     * @dev Grants or revokes the executor role of an account.
+     *
+     * An executor can execute approved transactions without being a wallet owner, but cannot approve them.
+     * Wallet owners can always execute transactions.
+     *
+     * Emits a {ConfigureExecutor} event.
+     *
+     * @param account The address of the account.
+     * @param enabled The new status of the role.
+     */
+    function configureExecutor(address account, bool enabled) external;
+
+    /**
+     * @dev Enables or disables the execution of approved transactions by any account.
+     *
+     * Emits a {ConfigurePublicExecution} event.
+     *
+     * @param enabled The new status of the public execution.
+     */
+    function configurePublicExecution(bool enabled) external;
+
+    /**
+     * @dev Configures the guard that checks transactions before and after their execution.
+     *
+     * The guard is called with the transaction data before the call to the transaction receiver
+     * and with the result of the call after it, and can prevent the execution by reverting.
+     * The zero address disables the checks.
+     *
+     * Emits a {ConfigureGuard} event.
+     *
+     * @param newGuard The address of the new guard.
+     */
+    function configureGuard(address newGuard) external;
+
+    /**
+     * @dev Pauses the submission and execution of transactions.
+     *
+     * While the wallet is paused, only a transaction calling the {unpause}, {cancel}, {cancelBatch}
+     * or an owner configuration function of the wallet can be submitted and executed,
+     * and it requires the full number of required approvals.
+     * This allows the owners to cancel the unwanted transactions and to replace the compromised key
+     * before lifting the pause.
+     *
+     * Emits a {Pause} event.
+     *
+     * @param reason The reason of the pause.
+     */
+    function pause(string calldata reason) external;
+
+    /**
+     * @dev Unpauses the submission and execution of transactions.
+     *
+     * Emits an {Unpause} event.
+     */
+    function unpause() external;
+
+    /**
+     * @dev Enables a module that can execute calls from the wallet with {execFromModule}.
+     *
+     * Emits an {EnableModule} event.
+     *
+     * @param module The address of the module.
+     */
+    function enableModule(address module) external;
+
+    /**
+     * @dev Disables a module.
+     *
+     * Emits a {DisableModule} event.
+     *
+     * @param module The address of the module.
+     */
+    function disableModule(address module) external;
+
     // ------------------ View functions -------------------------- //
 
     /**
-     * @dev Returns the number of approvals for a transaction.
+     * @dev Returns the number of approvals for a transaction given by the current wallet owners.
      * @param txId The ID of the transaction to check.
      */
     function getApprovalCount(uint256 txId) external view returns (uint256);
 
+    /**
+     * @dev Returns the total weight of approvals for a transaction given by the current wallet owners.
+     *
+     * The weight is compared with the number of required approvals to check if the transaction can be executed.
+     *
+     * @param txId The ID of the transaction to check.
+     */
+    function getApprovalWeight(uint256 txId) external view returns (uint256);
+
+    /**
+     * @dev Returns the number of approvals currently required to execute a transaction according to the policies.
+     *
+     * While the wallet is paused, the number is not less than the number of required approvals of the wallet.
+     * @param txId The ID of the transaction to check.
+     */
+    function getRequiredApprovals(uint256 txId) external view returns (uint256);
+
+    /**
+     * @dev Returns the execution policy configured for a transaction receiver.
+     * @param to The address of the transaction receiver.
+     */
+    function getDestinationPolicy(address to) external view returns (Policy memory);
+
+    /**
+     * @dev Returns the execution policy configured for a function selector of a transaction receiver.
+     * @param to The address of the transaction receiver.
+     * @param selector The function selector of the transaction data.
+     */
+    function getSelectorPolicy(address to, bytes4 selector) external view returns (Policy memory);
+
+    /**
+     * @dev Checks if a contract is allowed as a target of delegate call transactions.
+     * @param target The address of the target contract.
+     */
+    function isDelegateCallTargetAllowed(address target) external view returns (bool);
+
     /**
      * @dev Returns the approval status of a transaction.
      * @param txId The ID of the transaction to check.
@@ -242,6 +1001,25 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function getApprovalStatus(uint256 txId, address owner) external view returns (bool);
 
+    /**
+     * @dev Returns the EIP-712 typed data hash of a transaction that must be signed by a wallet owner to approve it.
+     * @param txId The ID of the transaction to hash.
+     */
+    function getTransactionHash(uint256 txId) external view returns (bytes32);
+
+    /**
+     * @dev Returns the EIP-712 typed data hash of a message that must be signed by wallet owners off-chain
+     * for the message to be considered signed by the wallet according to ERC-1271.
+     * @param messageHash The hash of the message to wrap.
+     */
+    function getMessageHash(bytes32 messageHash) external view returns (bytes32);
+
+    /**
+     * @dev Checks if a message hash has been signed by the wallet through an executed {signMessage} transaction.
+     * @param messageHash The hash of the message to check.
+     */
+    function isMessageSigned(bytes32 messageHash) external view returns (bool);
+
     /**
      * @dev Returns a single transaction.
      * @param txId The ID of the transaction to return.
@@ -255,6 +1033,32 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      */
     function getTransactions(uint256 txId, uint256 limit) external view returns (Transaction[] memory);
 
+    /**
+     * @dev Returns the current status of a transaction.
+     * @param txId The ID of the transaction to check.
+     */
+    function getTransactionStatus(uint256 txId) external view returns (TransactionStatus);
+
+    /**
+     * @dev Returns an array of IDs of transactions with the given status.
+     * @param status The status of the transactions to return.
+     * @param offset The number of matching transactions to skip from the beginning.
+     * @param limit The maximum number of transaction IDs to return.
+     */
+    function getTransactionsByStatus(
+        TransactionStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory);
+
+    /**
+     * @dev Returns an array of IDs of transactions that are still awaiting execution.
+     *
+     * These are the transactions in the {TransactionStatus.Pending}, {TransactionStatus.Cooldown}
+     * and {TransactionStatus.Executable} statuses.
+     */
+    function getPendingTransactionIds() external view returns (uint256[] memory);
+
     /**
      * @dev Returns an array of wallet owners.
      */
@@ -266,7 +1070,20 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
     function isOwner(address account) external view returns (bool);
 
     /**
-     * @dev Returns the number of approvals required to execute a transaction.
+     * @dev Returns the voting weight of an account, which is zero if the account is not a wallet owner.
+     * @param account The address of the account to check.
+     */
+    function ownerWeight(address account) external view returns (uint256);
+
+    /**
+     * @dev Returns the total voting weight of all the wallet owners.
+     */
+    function totalWeight() external view returns (uint256);
+
+    /**
+     * @dev Returns the total weight of approvals required to execute a transaction.
+     *
+     * Without configured weights each owner has the weight of one, so it is the number of required approvals.
      */
     function requiredApprovals() external view returns (uint256);
 
@@ -284,4 +1101,116 @@ interface IMultiSigWallet is IMultiSigWalletTypes {
      * @dev Returns the configured cooldown time.
      */
     function cooldownTime() external view returns (uint120);
+
+    /**
+     * @dev Returns the maximum cooldown time that can be requested for a transaction.
+     */
+    function maxCooldownTime() external view returns (uint120);
+
+    /**
+     * @dev Returns the maximum expiration time that can be requested for a transaction.
+     */
+    function maxExpirationTime() external view returns (uint120);
+
+    /**
+     * @dev Checks if transactions can be executed only in the order of their IDs.
+     */
+    function orderedExecution() external view returns (bool);
+
+    /**
+     * @dev Returns the lowest ID of a transaction that is not executed, cancelled or expired.
+     *
+     * If there is no such transaction, the number of transactions is returned.
+     * In the ordered execution mode only the transaction with this ID can be executed.
+     */
+    function nextExecutableTxId() external view returns (uint256);
+
+    /**
+     * @dev Checks if a failed call of a transaction marks the transaction as failed instead of reverting.
+     */
+    function tryExecution() external view returns (bool);
+
+    /**
+     * @dev Returns the maximum gas price of execution refunds, zero if refunds are disabled.
+     */
+    function maxRefundGasPrice() external view returns (uint256);
+
+    /**
+     * @dev Returns the configured daily limit of native tokens that can be transferred with a single approval.
+     */
+    function dailyLimit() external view returns (uint256);
+
+    /**
+     * @dev Returns the amount of native tokens transferred within the current daily limit period.
+     */
+    function dailyLimitSpent() external view returns (uint256);
+
+    /**
+     * @dev Returns the timestamp when the current daily limit period ends and the spent amount is reset.
+     *
+     * If the returned timestamp is in the past, the next transfer within the daily limit starts a new period.
+     */
+    function dailyLimitResetTime() external view returns (uint256);
+
+    /**
+     * @dev Returns the address of the registry notified about owner changes.
+     */
+    function registry() external view returns (address);
+
+    /**
+     * @dev Checks if an account can submit transactions, i.e. it is a wallet owner or has the proposer role.
+     * @param account The address of the account to check.
+     */
+    function isProposer(address account) external view returns (bool);
+
+    /**
+     * @dev Checks if an account can execute approved transactions.
+     *
+     * It is true for wallet owners, accounts with the executor role and any account if public execution is enabled.
+     *
+     * @param account The address of the account to check.
+     */
+    function isExecutor(address account) external view returns (bool);
+
+    /**
+     * @dev Checks if the execution of approved transactions by any account is enabled.
+     */
+    function publicExecution() external view returns (bool);
+
+    /**
+     * @dev Returns the address of the guard that checks executed transactions.
+     */
+    function guard() external view returns (address);
+
+    /**
+     * @dev Checks if a module is enabled.
+     * @param module The address of the module to check.
+     */
+    function isModuleEnabled(address module) external view returns (bool);
+
+    /**
+     * @dev Returns the number of enabled modules.
+     */
+    function modulesCount() external view returns (uint256);
+
+    /**
+     * @dev Returns a page of enabled modules.
+     *
+     * - The order of modules is not guaranteed and can change when modules are disabled.
+     * - The function will return an empty array if the offset is out of range or if the limit is zero.
+     *
+     * @param offset The index of the first module to return.
+     * @param limit The maximum number of modules to return.
+     */
+    function getModules(uint256 offset, uint256 limit) external view returns (address[] memory);
+
+    /**
+     * @dev Checks if the submission and execution of transactions are paused.
+     */
+    function paused() external view returns (bool);
+
+    /**
+     * @dev Returns the EIP-712 domain separator of the wallet.
+     */
+    function domainSeparator() external view returns (bytes32);
 }
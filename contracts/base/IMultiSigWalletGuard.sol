@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { IMultiSigWalletTypes } from "./IMultiSigWallet.sol";
+
+/**
+ * @title MultiSigWalletGuard interface
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The interface of a guard that checks transactions executed by a multi-signature wallet.
+ *
+ * The guard is called by the wallet, so `msg.sender` of the hooks is the wallet address.
+ * A guard can prevent the execution of a transaction by reverting from any of the hooks.
+ */
+interface IMultiSigWalletGuard {
+    /**
+     * @dev Checks a transaction before its execution.
+     * @param txId The ID of the transaction.
+     * @param transaction The data of the transaction.
+     * @param executor The address of the account that executes the transaction.
+     */
+    function checkTransaction(
+        uint256 txId,
+        IMultiSigWalletTypes.Transaction calldata transaction,
+        address executor
+    ) external;
+
+    /**
+     * @dev Checks the result of a transaction after its execution.
+     * @param txId The ID of the transaction.
+     * @param success True if the call to the transaction receiver succeeded.
+     * @param result The data returned by the call to the transaction receiver.
+     */
+    function checkAfterExecution(uint256 txId, bool success, bytes calldata result) external;
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+/**
+ * @title MultiSigWalletRegistry interface
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The interface of a registry that indexes multi-signature wallets by their owners.
+ */
+interface IMultiSigWalletRegistry {
+    /**
+     * @dev Notifies the registry that the owners of the calling wallet have been configured.
+     *
+     * The registry is expected to read the actual owners from the calling wallet.
+     */
+    function notifyOwnersConfigured() external;
+}
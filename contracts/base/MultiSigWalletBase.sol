@@ -2,20 +2,68 @@
 
 pragma solidity ^0.8.20;
 
+import { IERC1271 } from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import { IERC1155Receiver } from "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import { IERC721Receiver } from "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
 import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { IMultiSigWalletRegistry } from "./IMultiSigWalletRegistry.sol";
+import { MultiSigWalletExecution } from "./MultiSigWalletExecution.sol";
+import { MultiSigWalletModules } from "./MultiSigWalletModules.sol";
+import { MultiSigWalletOwners } from "./MultiSigWalletOwners.sol";
+import { MultiSigWalletPolicies } from "./MultiSigWalletPolicies.sol";
+import { MultiSigWalletSignatures } from "./MultiSigWalletSignatures.sol";
 import { MultiSigWalletStorage } from "./MultiSigWalletStorage.sol";
+import { MultiSigWalletTransactions } from "./MultiSigWalletTransactions.sol";
 
 /**
  * @title MultiSigWalletBase contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
  * @dev The base of the multi-signature wallet contract.
  */
-abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
+abstract contract MultiSigWalletBase is
+    MultiSigWalletStorage,
+    IMultiSigWallet,
+    IERC1271,
+    IERC721Receiver,
+    IERC1155Receiver
+{
     // ------------------ Constants ------------------------------- //
 
     /// @dev The minimum transaction expiration time.
     uint256 public constant MINIMUM_EXPIRATION_TIME = 60 minutes;
 
+    /// @dev The duration of a daily limit period.
+    uint256 public constant DAILY_LIMIT_PERIOD = 1 days;
+
+    /// @dev The EIP-712 type hash of the domain separator.
+    bytes32 public constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    /// @dev The EIP-712 type hash of a transaction approval.
+    bytes32 public constant TRANSACTION_TYPEHASH = keccak256(
+        "Transaction(uint256 txId,address to,uint256 value,bytes data,uint8 operation,uint64 gasLimit,"
+        "uint128 cooldown,uint128 expiration)"
+    );
+
+    /// @dev The EIP-712 type hash of a message signed on behalf of the wallet.
+    bytes32 public constant MESSAGE_TYPEHASH = keccak256("Message(bytes32 hash)");
+
+    /// @dev The value returned by {isValidSignature} for a valid signature according to ERC-1271.
+    bytes4 internal constant ERC1271_MAGIC_VALUE = IERC1271.isValidSignature.selector;
+
+    /// @dev The value returned by {isValidSignature} for an invalid signature.
+    bytes4 internal constant ERC1271_INVALID_VALUE = 0xffffffff;
+
+    /// @dev The hash of the EIP-712 domain name.
+    bytes32 internal constant DOMAIN_NAME_HASH = keccak256("MultiSigWallet");
+
+    /// @dev The hash of the EIP-712 domain version.
+    bytes32 internal constant DOMAIN_VERSION_HASH = keccak256("1");
+
     // ------------------ Errors ---------------------------------- //
 
     /// @dev An unauthorized account called a function.
@@ -27,6 +75,12 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
     /// @dev A transaction with the specified ID is already executed.
     error TransactionAlreadyExecuted();
 
+    /// @dev A transaction with the specified ID is cancelled.
+    error TransactionCancelled();
+
+    /// @dev The transaction has already failed in the try execution mode.
+    error TransactionFailed();
+
     /// @dev A transaction with the specified ID must be approved by the caller.
     error TransactionNotApproved();
 
@@ -45,28 +99,106 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
     /// @dev An invalid number of required approvals was passed when configuring the wallet owners.
     error InvalidRequiredApprovals();
 
+    /// @dev The specified account is not a wallet owner.
+    error OwnerNotExist();
+
+    /// @dev An invalid array of owner weights was passed when configuring the wallet owners.
+    error InvalidOwnerWeights();
+
+    /// @dev The zero module address was passed when enabling a module.
+    error ZeroModuleAddress();
+
+    /// @dev The module has already been enabled.
+    error ModuleAlreadyEnabled();
+
+    /// @dev The module is not enabled.
+    error ModuleNotEnabled();
+
+    /// @dev The wallet is paused.
+    error WalletPaused();
+
+    /// @dev The wallet is not paused.
+    error WalletNotPaused();
+
+    /// @dev The transaction is not the next one to execute in the ordered execution mode.
+    error TransactionOutOfOrder();
+
     /// @dev The number of approvals for a given transaction is less than the required minimum.
     error NotEnoughApprovals();
 
+    /// @dev Not enough gas was provided for the call of a transaction, or its call without a gas limit ran out of gas.
+    error NotEnoughGas();
+
     /// @dev A low-level call/transaction to the transaction receiver failed.
     error InternalTransactionFailed(bytes data);
 
+    /// @dev A low-level call with the specified index within a bundle transaction failed.
+    error InternalCallFailed(uint256 index, bytes data);
+
+    /// @dev An empty array of calls was passed when submitting a bundle transaction.
+    error EmptyCallsArray();
+
+    /// @dev The target of a delegate call transaction is not allowed.
+    error DelegateCallTargetNotAllowed();
+
+    /// @dev A non-zero value was passed when submitting a delegate call transaction.
+    error DelegateCallValueNotZero();
+
+    /// @dev A delegate call transaction changed the wallet owners, their weights or the number of required approvals.
+    error OwnersChangedByDelegateCall();
+
     /// @dev A transaction with the specified ID has already expired.
     error TransactionExpired();
 
     /// @dev A transaction with the specified ID is on cooldown.
     error CooldownNotEnded();
 
-    /// @dev An invalid amount of time was passed when configuring the expiration time.
+    /// @dev An invalid amount of time was passed when configuring or requesting the expiration time.
     error InvalidExpirationTime();
 
+    /// @dev An invalid amount of time was requested as the cooldown time of a transaction.
+    error InvalidCooldownTime();
+
+    /// @dev A signature cannot be recovered to a valid signer address.
+    error InvalidSignature();
+
+    /// @dev The signer of a transaction approval is not a wallet owner.
+    error UnauthorizedSigner();
+
+    /// @dev An approval signature of the owner has already been used for the transaction with the specified ID.
+    error ApprovalSignatureAlreadyUsed();
+
     // ------------------ Modifiers ------------------------------- //
 
     /**
      * @dev Throws if called by any account other than a wallet owner.
      */
     modifier onlyOwner() {
-        if (!_isOwner[msg.sender]) {
+        _checkOwner();
+        _;
+    }
+
+    /**
+     * @dev Throws if called by any account other than a wallet owner or a proposer.
+     */
+    modifier onlyProposer() {
+        _checkProposer();
+        _;
+    }
+
+    /**
+     * @dev Throws if called by any account other than a wallet owner or an executor unless public execution is enabled.
+     */
+    modifier onlyExecutor() {
+        _checkExecutor();
+        _;
+    }
+
+    /**
+     * @dev Throws if called by any account other than an enabled module.
+     */
+    modifier onlyModule() {
+        if (_modulePositions[msg.sender] == 0) {
             revert UnauthorizedCaller();
         }
         _;
@@ -76,9 +208,7 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      * @dev Throws if called by any account other than the contract itself.
      */
     modifier onlySelfCall() {
-        if (msg.sender != address(this)) {
-            revert UnauthorizedCaller();
-        }
+        _checkSelfCall();
         _;
     }
 
@@ -93,19 +223,66 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
         emit Deposit(msg.sender, msg.value);
     }
 
+    /**
+     * @dev See {IERC721Receiver-onERC721Received}.
+     *
+     * Emits a {DepositERC721} event.
+     */
+    function onERC721Received(
+        address, // operator
+        address from,
+        uint256 tokenId,
+        bytes calldata // data
+    ) external returns (bytes4) {
+        emit DepositERC721(msg.sender, from, tokenId);
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /**
+     * @dev See {IERC1155Receiver-onERC1155Received}.
+     *
+     * Emits a {DepositERC1155} event.
+     */
+    function onERC1155Received(
+        address, // operator
+        address from,
+        uint256 id,
+        uint256 value,
+        bytes calldata // data
+    ) external returns (bytes4) {
+        emit DepositERC1155(msg.sender, from, id, value);
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    /**
+     * @dev See {IERC1155Receiver-onERC1155BatchReceived}.
+     *
+     * Emits a {DepositERC1155Batch} event.
+     */
+    function onERC1155BatchReceived(
+        address, // operator
+        address from,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata // data
+    ) external returns (bytes4) {
+        emit DepositERC1155Batch(msg.sender, from, ids, values);
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
+    }
+
     /**
      * @dev See {IMultiSigWallet-submit}.
      *
      * Requirements:
      *
-     * - The caller must be a wallet owner.
+     * - The caller must be a wallet owner or a proposer.
      */
     function submit(
         address to, // Tools: prevent Prettier one-liner
         uint256 value,
         bytes calldata data
-    ) external onlyOwner {
-        _submit(to, value, data);
+    ) external onlyProposer {
+        _submit(to, value, data, SubmitOptions(Operation.Call, 0, 0, 0));
     }
 
     /**
@@ -120,7 +297,55 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
         uint256 value,
         bytes calldata data
     ) external onlyOwner {
-        _approve(_submit(to, value, data));
+        _approve(_submit(to, value, data, SubmitOptions(Operation.Call, 0, 0, 0)), msg.sender);
+    }
+
+    /**
+     * @dev See {IMultiSigWallet-submit}.
+     *
+     * Requirements:
+     *
+     * - The caller must be a wallet owner or a proposer.
+     * - The target of a delegate call must be allowed and the value must be zero.
+     * - The requested times must not be less than the default ones and must not exceed the configured maximums.
+     */
+    function submit(
+        address to, // Tools: prevent Prettier one-liner
+        uint256 value,
+        bytes calldata data,
+        SubmitOptions calldata options
+    ) external onlyProposer {
+        _submit(to, value, data, options);
+    }
+
+    /**
+     * @dev See {IMultiSigWallet-submitAndApprove}.
+     *
+     * Requirements:
+     *
+     * - The caller must be a wallet owner.
+     * - The target of a delegate call must be allowed and the value must be zero.
+     * - The requested times must not be less than the default ones and must not exceed the configured maximums.
+     */
+    function submitAndApprove(
+        address to, // Tools: prevent Prettier one-liner
+        uint256 value,
+        bytes calldata data,
+        SubmitOptions calldata options
+    ) external onlyOwner {
+        _approve(_submit(to, value, data, options), msg.sender);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be a wallet owner or a proposer.
+     * - The array of calls must not be empty.
+     */
+    function submitMulti(Call[] calldata calls) external onlyProposer {
+        _submitMulti(calls);
     }
 
     /**
@@ -135,7 +360,7 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      * - The transaction with the given ID must not be already approved by the caller.
      */
     function approve(uint256 txId) external onlyOwner {
-        _approve(txId);
+        _approve(txId, msg.sender);
     }
 
     /**
@@ -152,10 +377,27 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
     function approveBatch(uint256[] calldata txIds) external onlyOwner {
         uint256 count = txIds.length;
         for (uint256 i = 0; i < count; ++i) {
-            _approve(txIds[i]);
+            _approve(txIds[i], msg.sender);
         }
     }
 
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be a wallet owner.
+     * - The transaction with the given ID must exist.
+     * - The transaction with the given ID must not be expired.
+     * - The transaction with the given ID must not be executed.
+     * - The signature must be made by a wallet owner over the transaction typed data.
+     * - The signature of the same owner must not be already used for the transaction.
+     * - The transaction with the given ID must not be already approved by the signer.
+     */
+    function approveBySig(uint256 txId, bytes calldata signature) external onlyOwner {
+        _approveBySig(txId, signature);
+    }
+
     /**
      * @inheritdoc IMultiSigWallet
      *
@@ -169,9 +411,14 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      * - The transaction with the given ID must not be already approved by the caller.
      * - The transaction with the given ID must have at least the required number of approvals minus one.
      */
-    function approveAndExecute(uint256 txId) external onlyOwner {
-        _approve(txId);
-        _execute(txId);
+    function approveAndExecute(uint256 txId) external onlyOwner returns (bytes memory result) {
+        uint256 startGas = gasleft();
+        _approve(txId, msg.sender);
+        bool success;
+        (success, result) = _execute(txId);
+        if (success) {
+            _refundGas(startGas - gasleft());
+        }
     }
 
     /**
@@ -189,11 +436,17 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      */
     function approveAndExecuteBatch(uint256[] calldata txIds) external onlyOwner {
         uint256 count = txIds.length;
+        uint256 gasUsed = 0;
         for (uint256 i = 0; i < count; ++i) {
+            uint256 startGas = gasleft();
             uint256 txId = txIds[i];
-            _approve(txId);
-            _execute(txId);
+            _approve(txId, msg.sender);
+            (bool success, ) = _execute(txId);
+            if (success) {
+                gasUsed += startGas - gasleft();
+            }
         }
+        _refundGas(gasUsed);
     }
 
     /**
@@ -201,15 +454,21 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      *
      * @dev Requirements:
      *
-     * - The caller must be a wallet owner.
+     * - The caller must be a wallet owner or an executor, or public execution must be enabled.
      * - The transaction with the given ID must exist.
      * - The transaction with the given ID must not be expired.
      * - The transaction with the given ID must not be executed.
      * - The transaction with the given ID must not be on cooldown.
-     * - The transaction with the given ID must have at least the required number of approvals.
+     * - The transaction with the given ID must have at least the required number of approvals
+     *   or a single approval if it is a native token transfer within the remaining daily limit.
      */
-    function execute(uint256 txId) external onlyOwner {
-        _execute(txId);
+    function execute(uint256 txId) external onlyExecutor returns (bytes memory result) {
+        uint256 startGas = gasleft();
+        bool success;
+        (success, result) = _execute(txId);
+        if (success) {
+            _refundGas(startGas - gasleft());
+        }
     }
 
     /**
@@ -217,17 +476,70 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      *
      * @dev Requirements:
      *
-     * - The caller must be a wallet owner.
+     * - The caller must be a wallet owner or an executor, or public execution must be enabled.
+     * - The transaction with the given ID must exist.
+     * - The transaction with the given ID must not be expired.
+     * - The transaction with the given ID must not be executed.
+     * - The transaction with the given ID must not be on cooldown.
+     * - Each signature must be made by a wallet owner over the transaction typed data.
+     * - Each signer must not have already approved the transaction.
+     * - The transaction with the given ID must have at least the required number of approvals including signatures.
+     */
+    function executeWithSignatures(uint256 txId, bytes[] calldata signatures) external onlyExecutor {
+        uint256 startGas = gasleft();
+        uint256 count = signatures.length;
+        for (uint256 i = 0; i < count; ++i) {
+            _approveBySig(txId, signatures[i]);
+        }
+        (bool success, ) = _execute(txId);
+        if (success) {
+            _refundGas(startGas - gasleft());
+        }
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be a wallet owner or an executor, or public execution must be enabled.
      * - The transactions with the given IDs must exist.
      * - The transactions with the given IDs must not be expired.
      * - The transactions with the given IDs must not be executed.
      * - The transactions with the given IDs must not be on cooldown.
      * - The transactions with the given IDs must have at least the required number of approvals.
      */
-    function executeBatch(uint256[] calldata txIds) external onlyOwner {
+    function executeBatch(uint256[] calldata txIds) external onlyExecutor returns (bool[] memory results) {
         uint256 count = txIds.length;
+        results = new bool[](count);
+        uint256 gasUsed = 0;
         for (uint256 i = 0; i < count; ++i) {
-            _execute(txIds[i]);
+            uint256 startGas = gasleft();
+            (results[i], ) = _execute(txIds[i]);
+            if (results[i]) {
+                gasUsed += startGas - gasleft();
+            }
+        }
+        _refundGas(gasUsed);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be an enabled module.
+     */
+    function execFromModule(
+        address to,
+        uint256 value,
+        bytes calldata data
+    ) external onlyModule returns (bool success, bytes memory result) {
+        (success, result) = to.call{ value: value }(data);
+        if (success) {
+            emit ExecutionFromModuleSuccess(msg.sender);
+        } else {
+            emit ExecutionFromModuleFailure(msg.sender);
         }
     }
 
@@ -269,179 +581,865 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
      *
      * @dev Requirements:
      *
-     * - The array of wallet owners must not be empty.
-     * - The number of required approvals must not be zero and must not exceed the length of the wallet owners array.
+     * - The caller must be the multi-signature wallet itself.
+     * - The transaction with the given ID must exist.
+     * - The transaction with the given ID must not be executed.
+     * - The transaction with the given ID must not be already cancelled.
      */
-    function configureOwners(address[] memory newOwners, uint16 newRequiredApprovals) external onlySelfCall {
-        _configureOwners(newOwners, newRequiredApprovals);
+    function cancel(uint256 txId) external onlySelfCall {
+        _cancel(txId);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The transactions with the given IDs must exist.
+     * - The transactions with the given IDs must not be executed.
+     * - The transactions with the given IDs must not be already cancelled.
      */
-    function configureExpirationTime(uint120 newExpirationTime) external onlySelfCall {
-        _configureExpirationTime(newExpirationTime);
+    function cancelBatch(uint256[] calldata txIds) external onlySelfCall {
+        uint256 count = txIds.length;
+        for (uint256 i = 0; i < count; ++i) {
+            _cancel(txIds[i]);
+        }
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The number of required approvals of an enabled policy must not be zero
+     *   and must not exceed the number of wallet owners.
      */
-    function configureCooldownTime(uint120 newCooldownTime) external onlySelfCall {
-        _configureCooldownTime(newCooldownTime);
+    function configureDestinationPolicy(address to, Policy calldata policy) external onlySelfCall {
+        MultiSigWalletPolicies.configureDestination(_destinationPolicies, to, policy, _getTotalWeight());
     }
 
-    // ------------------ View functions -------------------------- //
-
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The number of required approvals of an enabled policy must not be zero
+     *   and must not exceed the number of wallet owners.
      */
-    function getApprovalCount(uint256 txId) external view returns (uint256) {
-        return _approvalCount[txId];
+    function configureSelectorPolicy(address to, bytes4 selector, Policy calldata policy) external onlySelfCall {
+        MultiSigWalletPolicies.configureSelector(_selectorPolicies, to, selector, policy, _getTotalWeight());
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function getApprovalStatus(uint256 txId, address owner) external view returns (bool) {
-        return _approvalStatus[txId][owner];
+    function configureDailyLimit(uint256 newDailyLimit) external onlySelfCall {
+        _dailyLimit = newDailyLimit;
+        emit ConfigureDailyLimit(newDailyLimit);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function getTransaction(uint256 txId) external view returns (Transaction memory) {
-        if (txId >= _transactions.length) {
-            revert TransactionNotExist();
-        }
-        return _transactions[txId];
+    function configureDelegateCallTarget(address target, bool allowed) external onlySelfCall {
+        _delegateCallTargets[target] = allowed;
+        emit ConfigureDelegateCallTarget(target, allowed);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
      *
-     * @dev Notes:
-     * - The total number of returned transactions will not exceed the provided limit, but may be less.
-     * - The function will return an empty array if there is no transaction with the given ID or if the limit is zero.
-     * - The empty transaction array will be returned if the transaction with the provided ID does not exist or the
-     * provided limit is zero.
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function getTransactions(uint256 txId, uint256 limit) external view returns (Transaction[] memory txs) {
-        uint256 len = _transactions.length;
-        if (len <= txId || limit == 0) {
-            txs = new Transaction[](0);
-        } else {
-            len -= txId;
-            if (len > limit) {
-                len = limit;
-            }
-            txs = new Transaction[](len);
-            for (uint256 i = 0; i < len; i++) {
-                txs[i] = _transactions[txId];
-                txId++;
-            }
-        }
+    function configureRegistry(address newRegistry) external onlySelfCall {
+        _configureRegistry(newRegistry);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function owners() external view returns (address[] memory) {
-        return _owners;
+    function configureProposer(address account, bool enabled) external onlySelfCall {
+        _proposers[account] = enabled;
+        emit ConfigureProposer(account, enabled);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function isOwner(address account) external view returns (bool) {
-        return _isOwner[account];
+    function configureExecutor(address account, bool enabled) external onlySelfCall {
+        _executors[account] = enabled;
+        emit ConfigureExecutor(account, enabled);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function requiredApprovals() external view returns (uint256) {
-        return _requiredApprovals;
+    function configurePublicExecution(bool enabled) external onlySelfCall {
+        _publicExecution = enabled;
+        emit ConfigurePublicExecution(enabled);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
      */
-    function transactionCount() external view returns (uint256) {
-        return _transactions.length;
+    function configureGuard(address newGuard) external onlySelfCall {
+        _guard = newGuard;
+        emit ConfigureGuard(newGuard);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be a wallet owner.
+     * - The wallet must not be paused.
      */
-    function expirationTime() external view returns (uint120) {
-        return _expirationTime;
+    function pause(string calldata reason) external onlyOwner {
+        if (_paused) {
+            revert WalletPaused();
+        }
+        _paused = true;
+        emit Pause(msg.sender, reason);
     }
 
     /**
      * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The wallet must be paused.
      */
-    function cooldownTime() external view returns (uint120) {
-        return _cooldownTime;
+    function unpause() external onlySelfCall {
+        if (!_paused) {
+            revert WalletNotPaused();
+        }
+        _paused = false;
+        emit Unpause();
     }
 
-    // ------------------ Internal functions ---------------------- //
-
     /**
-     * @dev Submits a transaction internally. See {MultiSigWallet-submit}.
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The module must not be the zero address.
+     * - The module must not be already enabled.
      */
-    function _submit(
-        address to, // Tools: prevent Prettier one-liner
-        uint256 value,
-        bytes calldata data
-    ) internal returns (uint256 txId) {
-        uint128 blockTimestamp = toUint128(block.timestamp);
-
-        _transactions.push(
-            Transaction({
-                to: to,
-                executed: false,
-                cooldown: blockTimestamp + _cooldownTime,
-                expiration: blockTimestamp + _cooldownTime + _expirationTime,
-                value: value,
-                data: data
-            })
-        );
-
-        txId = _transactions.length - 1;
-
-        emit Submit(msg.sender, txId);
+    function enableModule(address module) external onlySelfCall {
+        MultiSigWalletModules.enable(_modules, _modulePositions, module);
     }
 
     /**
-     * @dev Approves a transaction internally. See {MultiSigWallet-approve}.
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The module must be enabled.
      */
-    function _approve(uint256 txId) internal {
-        if (txId >= _transactions.length) {
+    function disableModule(address module) external onlySelfCall {
+        MultiSigWalletModules.disable(_modules, _modulePositions, module);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     */
+    function signMessage(bytes32 messageHash) external onlySelfCall {
+        _signedMessages[messageHash] = true;
+        emit SignMessage(messageHash);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The array of wallet owners must not be empty.
+     * - The number of required approvals must not be zero and must not exceed the length of the wallet owners array.
+     */
+    function configureOwners(address[] memory newOwners, uint16 newRequiredApprovals) external onlySelfCall {
+        _configureOwners(newOwners, newRequiredApprovals);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The array of wallet owners must not be empty.
+     * - The array of weights must have the same length as the array of owners and must not contain zeros.
+     * - The number of required approvals must not be zero and must not exceed the total weight of the owners.
+     */
+    function configureWeightedOwners(
+        address[] memory newOwners,
+        uint16[] memory newWeights,
+        uint16 newRequiredApprovals
+    ) external onlySelfCall {
+        if (newWeights.length == 0) {
+            revert InvalidOwnerWeights();
+        }
+        _configureWeightedOwners(newOwners, newWeights, newRequiredApprovals);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The new owner must not be the zero address or an existing owner.
+     * - The number of required approvals must not be zero and must not exceed the new number of owners.
+     */
+    function addOwner(address owner, uint16 newRequiredApprovals) external onlySelfCall {
+        MultiSigWalletOwners.add(_owners, _isOwner, owner);
+        _changeThreshold(newRequiredApprovals);
+        _notifyRegistry();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The owner must be an existing owner.
+     * - The number of required approvals must not be zero and must not exceed the new number of owners.
+     */
+    function removeOwner(address owner, uint16 newRequiredApprovals) external onlySelfCall {
+        MultiSigWalletOwners.remove(_owners, _isOwner, _ownerWeights, owner);
+        _changeThreshold(newRequiredApprovals);
+        _notifyRegistry();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The old owner must be an existing owner.
+     * - The new owner must not be the zero address or an existing owner.
+     */
+    function replaceOwner(address oldOwner, address newOwner) external onlySelfCall {
+        MultiSigWalletOwners.replace(_owners, _isOwner, _ownerWeights, oldOwner, newOwner);
+        _notifyRegistry();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     * - The number of required approvals must not be zero and must not exceed the number of owners.
+     */
+    function changeThreshold(uint16 newRequiredApprovals) external onlySelfCall {
+        _changeThreshold(newRequiredApprovals);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function configureExpirationTime(uint120 newExpirationTime) external onlySelfCall {
+        _configureExpirationTime(newExpirationTime);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function configureCooldownTime(uint120 newCooldownTime) external onlySelfCall {
+        _configureCooldownTime(newCooldownTime);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     */
+    function configureMaxTransactionTimes(
+        uint120 newMaxCooldownTime,
+        uint120 newMaxExpirationTime
+    ) external onlySelfCall {
+        _maxCooldownTime = newMaxCooldownTime;
+        _maxExpirationTime = newMaxExpirationTime;
+        emit ConfigureMaxTransactionTimes(newMaxCooldownTime, newMaxExpirationTime);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     */
+    function configureOrderedExecution(bool enabled) external onlySelfCall {
+        if (enabled) {
+            _executionCursor = _getNextExecutableTxId();
+        }
+        _orderedExecution = enabled;
+        emit ConfigureOrderedExecution(enabled);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     */
+    function configureTryExecution(bool enabled) external onlySelfCall {
+        _tryExecution = enabled;
+        emit ConfigureTryExecution(enabled);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Requirements:
+     *
+     * - The caller must be the multi-signature wallet itself.
+     */
+    function configureGasRefund(uint256 newMaxGasPrice) external onlySelfCall {
+        _maxRefundGasPrice = newMaxGasPrice;
+        emit ConfigureGasRefund(newMaxGasPrice);
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getApprovalCount(uint256 txId) external view returns (uint256) {
+        return _getApprovalCount(txId);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getApprovalWeight(uint256 txId) external view returns (uint256) {
+        return _getApprovalWeight(txId);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getRequiredApprovals(uint256 txId) external view returns (uint256) {
+        if (txId >= _transactions.length) {
             revert TransactionNotExist();
         }
-        if (_approvalStatus[txId][msg.sender]) {
-            revert TransactionAlreadyApproved();
+        return _getRequiredApprovals(txId);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getDestinationPolicy(address to) external view returns (Policy memory) {
+        return _destinationPolicies[to];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getSelectorPolicy(address to, bytes4 selector) external view returns (Policy memory) {
+        return _selectorPolicies[to][selector];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isDelegateCallTargetAllowed(address target) external view returns (bool) {
+        return _delegateCallTargets[target];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getApprovalStatus(uint256 txId, address owner) external view returns (bool) {
+        return _approvalStatus[txId][owner];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getTransactionHash(uint256 txId) external view returns (bytes32) {
+        if (txId >= _transactions.length) {
+            revert TransactionNotExist();
+        }
+        return _hashTransaction(txId);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getMessageHash(bytes32 messageHash) external view returns (bytes32) {
+        return _hashMessage(messageHash);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isMessageSigned(bytes32 messageHash) external view returns (bool) {
+        return _signedMessages[messageHash];
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return
+            interfaceId == type(IERC165).interfaceId ||
+            interfaceId == type(IERC721Receiver).interfaceId ||
+            interfaceId == type(IERC1155Receiver).interfaceId ||
+            interfaceId == type(IERC1271).interfaceId;
+    }
+
+    /**
+     * @dev See {IERC1271-isValidSignature}.
+     *
+     * The message hash is considered signed by the wallet in one of the following cases:
+     *
+     * - The signature is empty and the hash has been signed through an executed {signMessage} transaction.
+     * - The signature is a concatenation of 65-byte owner signatures of the typed data hash returned by
+     *   {getMessageHash}, sorted by the signer address in ascending order, and the number of signers
+     *   is not less than the number of required approvals.
+     */
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (signature.length == 0) {
+            return _signedMessages[hash] ? ERC1271_MAGIC_VALUE : ERC1271_INVALID_VALUE;
+        }
+        bool valid = MultiSigWalletSignatures.checkOwnerSignatures(
+            _isOwner,
+            _ownerWeights,
+            _hashMessage(hash),
+            signature,
+            _requiredApprovals
+        );
+        return valid ? ERC1271_MAGIC_VALUE : ERC1271_INVALID_VALUE;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getTransaction(uint256 txId) external view returns (Transaction memory) {
+        if (txId >= _transactions.length) {
+            revert TransactionNotExist();
+        }
+        return _transactions[txId];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Notes:
+     * - The total number of returned transactions will not exceed the provided limit, but may be less.
+     * - The function will return an empty array if there is no transaction with the given ID or if the limit is zero.
+     * - The empty transaction array will be returned if the transaction with the provided ID does not exist or the
+     * provided limit is zero.
+     */
+    function getTransactions(uint256 txId, uint256 limit) external view returns (Transaction[] memory txs) {
+        uint256 len = _transactions.length;
+        if (len <= txId || limit == 0) {
+            txs = new Transaction[](0);
+        } else {
+            len -= txId;
+            if (len > limit) {
+                len = limit;
+            }
+            txs = new Transaction[](len);
+            for (uint256 i = 0; i < len; i++) {
+                txs[i] = _transactions[txId];
+                txId++;
+            }
+        }
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getTransactionStatus(uint256 txId) external view returns (TransactionStatus) {
+        if (txId >= _transactions.length) {
+            revert TransactionNotExist();
+        }
+        return _getTransactionStatus(txId);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     *
+     * @dev Notes:
+     * - The total number of returned transaction IDs will not exceed the provided limit, but may be less.
+     * - The empty array will be returned if there are no matching transactions after the offset or the limit is zero.
+     */
+    function getTransactionsByStatus(
+        TransactionStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        uint256 len = _transactions.length;
+        if (limit > len) {
+            limit = len;
+        }
+        uint256[] memory txIds = new uint256[](limit);
+        uint256 count = 0;
+        for (uint256 txId = 0; txId < len && count < limit; ++txId) {
+            if (_getTransactionStatus(txId) != status) {
+                continue;
+            }
+            if (offset != 0) {
+                --offset;
+                continue;
+            }
+            txIds[count++] = txId;
+        }
+        return _truncate(txIds, count);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getPendingTransactionIds() external view returns (uint256[] memory) {
+        uint256 len = _transactions.length;
+        uint256[] memory txIds = new uint256[](len);
+        uint256 count = 0;
+        for (uint256 txId = 0; txId < len; ++txId) {
+            TransactionStatus status = _getTransactionStatus(txId);
+            if (
+                status == TransactionStatus.Pending ||
+                status == TransactionStatus.Cooldown ||
+                status == TransactionStatus.Executable
+            ) {
+                txIds[count++] = txId;
+            }
+        }
+        return _truncate(txIds, count);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function owners() external view returns (address[] memory) {
+        return _owners;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isOwner(address account) external view returns (bool) {
+        return _isOwner[account];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function ownerWeight(address account) external view returns (uint256) {
+        if (!_isOwner[account]) {
+            return 0;
+        }
+        return MultiSigWalletOwners.weightOf(_ownerWeights, account);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function totalWeight() external view returns (uint256) {
+        return _getTotalWeight();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function requiredApprovals() external view returns (uint256) {
+        return _requiredApprovals;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function transactionCount() external view returns (uint256) {
+        return _transactions.length;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function expirationTime() external view returns (uint120) {
+        return _expirationTime;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function cooldownTime() external view returns (uint120) {
+        return _cooldownTime;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function maxCooldownTime() external view returns (uint120) {
+        return _maxCooldownTime;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function maxExpirationTime() external view returns (uint120) {
+        return _maxExpirationTime;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function orderedExecution() external view returns (bool) {
+        return _orderedExecution;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function nextExecutableTxId() external view returns (uint256) {
+        return _getNextExecutableTxId();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function tryExecution() external view returns (bool) {
+        return _tryExecution;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function maxRefundGasPrice() external view returns (uint256) {
+        return _maxRefundGasPrice;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function dailyLimit() external view returns (uint256) {
+        return _dailyLimit;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function dailyLimitSpent() external view returns (uint256) {
+        return _getDailyLimitSpent();
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function dailyLimitResetTime() external view returns (uint256) {
+        return _dailyLimitPeriodStart + DAILY_LIMIT_PERIOD;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function registry() external view returns (address) {
+        return _registry;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isProposer(address account) external view returns (bool) {
+        return _isOwner[account] || _proposers[account];
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isExecutor(address account) external view returns (bool) {
+        return _isExecutor(account);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function publicExecution() external view returns (bool) {
+        return _publicExecution;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function guard() external view returns (address) {
+        return _guard;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function isModuleEnabled(address module) external view returns (bool) {
+        return _modulePositions[module] != 0;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function modulesCount() external view returns (uint256) {
+        return _modules.length;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function getModules(uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return MultiSigWalletModules.getPage(_modules, offset, limit);
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function paused() external view returns (bool) {
+        return _paused;
+    }
+
+    /**
+     * @inheritdoc IMultiSigWallet
+     */
+    function domainSeparator() external view returns (bytes32) {
+        return _domainSeparator();
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Submits a transaction with the selected options internally. See {MultiSigWallet-submit}.
+     *
+     * The zero requested times are replaced with the default ones, which can always be requested.
+     */
+    function _submit(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        SubmitOptions memory options
+    ) internal returns (uint256) {
+        if (options.operation == Operation.DelegateCall) {
+            _checkDelegateCallTarget(to);
+            if (value != 0) {
+                revert DelegateCallValueNotZero();
+            }
+        }
+
+        (, uint120 defaultTime) = _getRequirements(to, data, false);
+        uint120 requestedTime = options.cooldownTime;
+        if (requestedTime == 0) {
+            options.cooldownTime = defaultTime;
+        } else if (requestedTime < defaultTime || (requestedTime > defaultTime && requestedTime > _maxCooldownTime)) {
+            revert InvalidCooldownTime();
+        }
+        defaultTime = _expirationTime;
+        requestedTime = options.expirationTime;
+        if (requestedTime == 0) {
+            options.expirationTime = defaultTime;
+        } else if (requestedTime < defaultTime || (requestedTime > defaultTime && requestedTime > _maxExpirationTime)) {
+            revert InvalidExpirationTime();
         }
 
-        Transaction memory transaction = _transactions[txId];
+        return _addTransaction(to, value, data, false, options);
+    }
 
-        if (transaction.executed) {
-            revert TransactionAlreadyExecuted();
+    /**
+     * @dev Submits a bundle transaction internally. See {MultiSigWallet-submitMulti}.
+     */
+    function _submitMulti(Call[] calldata calls) internal returns (uint256) {
+        (bytes memory data, uint256 value) = MultiSigWalletExecution.encodeCalls(calls);
+        (, uint120 cooldownTime) = _getRequirements(address(this), data, true);
+        SubmitOptions memory options = SubmitOptions(Operation.Call, 0, cooldownTime, _expirationTime);
+        return _addTransaction(address(this), value, data, true, options);
+    }
+
+    /**
+     * @dev Stores a new transaction with the given options, whose times are already validated.
+     */
+    function _addTransaction(
+        address to,
+        uint256 value,
+        bytes memory data,
+        bool bundled,
+        SubmitOptions memory options
+    ) internal returns (uint256) {
+        if (_paused && !_isPauseExemptCall(to, data, bundled, options.operation)) {
+            revert WalletPaused();
         }
-        if (transaction.expiration < block.timestamp) {
-            revert TransactionExpired();
+
+        return MultiSigWalletTransactions.add(_transactions, to, value, data, bundled, options);
+    }
+
+    /**
+     * @dev Approves a transaction internally on behalf of an owner. See {MultiSigWallet-approve}.
+     */
+    function _approve(uint256 txId, address owner) internal {
+        MultiSigWalletTransactions.approve(_transactions, _approvalStatus, txId, owner);
+    }
+
+    /**
+     * @dev Approves a transaction internally using an owner signature. See {MultiSigWallet-approveBySig}.
+     */
+    function _approveBySig(uint256 txId, bytes calldata signature) internal {
+        if (txId >= _transactions.length) {
+            revert TransactionNotExist();
         }
 
-        _approvalCount[txId] += 1;
-        _approvalStatus[txId][msg.sender] = true;
+        address signer = MultiSigWalletSignatures.recoverOwner(_isOwner, _hashTransaction(txId), signature);
+        if (_approvalSignatureUsed[txId][signer]) {
+            revert ApprovalSignatureAlreadyUsed();
+        }
 
-        emit Approve(msg.sender, txId);
+        _approvalSignatureUsed[txId][signer] = true;
+        _approve(txId, signer);
     }
 
     /**
      * @dev Executes a transaction internally. {MultiSigWallet-execute}.
+     *
+     * Returns false if the call of the transaction failed in the try execution mode, and the data returned by the call.
      */
-    function _execute(uint256 txId) internal {
+    function _execute(uint256 txId) internal returns (bool success, bytes memory data) {
         if (txId >= _transactions.length) {
             revert TransactionNotExist();
         }
@@ -451,93 +1449,220 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
         if (transaction.executed) {
             revert TransactionAlreadyExecuted();
         }
+        if (transaction.cancelled) {
+            revert TransactionCancelled();
+        }
+        if (_failedTransactions[txId]) {
+            revert TransactionFailed();
+        }
         if (transaction.cooldown > block.timestamp) {
             revert CooldownNotEnded();
         }
         if (transaction.expiration < block.timestamp) {
             revert TransactionExpired();
         }
-        if (_approvalCount[txId] < _requiredApprovals) {
-            revert NotEnoughApprovals();
+        if (_paused) {
+            if (!_isPauseExemptCall(transaction.to, transaction.data, transaction.bundled, transaction.operation)) {
+                revert WalletPaused();
+            }
+        } else if (_orderedExecution) {
+            if (txId == _getNextExecutableTxId()) {
+                _executionCursor = txId + 1;
+            } else if (!_isOrderExemptCall(transaction)) {
+                revert TransactionOutOfOrder();
+            }
+        }
+        uint256 approvalWeight = _getApprovalWeight(txId);
+        uint256 requiredApprovals = _getRequiredApprovals(txId);
+        bool limitSpent = approvalWeight < requiredApprovals;
+        if (limitSpent) {
+            if (approvalWeight == 0 || !_isWithinDailyLimit(transaction, requiredApprovals)) {
+                revert NotEnoughApprovals();
+            }
+            _spendDailyLimit(transaction.value);
         }
 
         transaction.executed = true;
 
-        emit Execute(msg.sender, txId);
+        address currentGuard = _guard;
+        if (currentGuard != address(0)) {
+            MultiSigWalletExecution.checkTransaction(currentGuard, txId, transaction);
+        }
+
+        if (transaction.operation == Operation.DelegateCall) {
+            (success, data) = _delegateCall(transaction);
+        } else {
+            (success, data) = _call(transaction);
+        }
 
-        (bool success, bytes memory data) = transaction.to.call{ value: transaction.value }(transaction.data);
+        if (currentGuard != address(0)) {
+            MultiSigWalletExecution.checkAfterExecution(currentGuard, txId, success, data);
+        }
         if (!success) {
-            revert InternalTransactionFailed(data);
+            if (!_tryExecution) {
+                revert InternalTransactionFailed(data);
+            }
+            // The failed transaction stays not executed and does not use up the daily limit
+            transaction.executed = false;
+            _failedTransactions[txId] = true;
+            if (limitSpent) {
+                _dailyLimitSpent -= transaction.value;
+            }
+            emit ExecutionFailure(txId, data);
+            return (false, data);
         }
+
+        emit Execute(msg.sender, txId);
+        emit ExecuteResult(txId, keccak256(data));
     }
 
     /**
-     * @dev Revokes a transaction internally. {MultiSigWallet-revoke}.
+     * @dev Executes the code of an allowed target in the context of the wallet.
+     *
+     * Only the array of owners, their weights and the number of required approvals are checked to stay unchanged
+     * after a successful call. Other access settings like the owner flags, proposers, executors, modules, guard
+     * and pause are not checked. The check guards against accidental corruption of the owner list by a faulty
+     * script only: a script can change any storage of the wallet, so the allowlist of delegate call targets
+     * is the actual trust boundary.
      */
-    function _revoke(uint256 txId) internal {
-        if (txId >= _transactions.length) {
-            revert TransactionNotExist();
-        }
-        if (!_approvalStatus[txId][msg.sender]) {
-            revert TransactionNotApproved();
+    function _delegateCall(Transaction storage transaction) internal returns (bool success, bytes memory result) {
+        _checkDelegateCallTarget(transaction.to);
+        bytes32 ownersHash = _hashOwners();
+        (success, result) = _call(transaction);
+        if (success && _hashOwners() != ownersHash) {
+            revert OwnersChangedByDelegateCall();
         }
+    }
 
-        Transaction storage transaction = _transactions[txId];
+    /**
+     * @dev Makes the calls of a transaction through the execution library according to the execution mode.
+     */
+    function _call(Transaction storage transaction) internal returns (bool success, bytes memory result) {
+        return _tryExecution ? _tryCall(transaction) : MultiSigWalletExecution.call(transaction);
+    }
 
-        if (transaction.executed) {
-            revert TransactionAlreadyExecuted();
+    /**
+     * @dev Makes the calls of a transaction in the try execution mode.
+     *
+     * The execution library is delegate-called at a low level, so a failed call of a bundle transaction
+     * reverts the whole bundle and its revert data is returned instead of reverting the execution.
+     */
+    function _tryCall(Transaction storage transaction) internal returns (bool success, bytes memory result) {
+        uint256 slot;
+        assembly {
+            slot := transaction.slot
         }
-        if (transaction.expiration < block.timestamp) {
-            revert TransactionExpired();
+        (success, result) = address(MultiSigWalletExecution).delegatecall(
+            abi.encodeWithSelector(MultiSigWalletExecution.call.selector, slot)
+        );
+        if (success) {
+            (success, result) = abi.decode(result, (bool, bytes));
+        } else if (result.length == 0 || bytes4(result) == NotEnoughGas.selector) {
+            // The library itself ran out of gas or detected an under-funded call, which must not fail the transaction
+            revert NotEnoughGas();
         }
+    }
 
-        _approvalCount[txId] -= 1;
-        _approvalStatus[txId][msg.sender] = false;
+    /**
+     * @dev Refunds the given amount of gas spent on successful executions if gas refunds are enabled.
+     *
+     * Executions that fail in the try execution mode are not refunded, so the wallet balance cannot be
+     * drained by repeatedly executing transactions that only get marked as failed.
+     */
+    function _refundGas(uint256 gasUsed) internal {
+        uint256 maxGasPrice = _maxRefundGasPrice;
+        if (maxGasPrice != 0 && gasUsed != 0) {
+            MultiSigWalletExecution.refundGas(gasUsed, maxGasPrice);
+        }
+    }
 
-        emit Revoke(msg.sender, txId);
+    /**
+     * @dev Revokes a transaction internally. {MultiSigWallet-revoke}.
+     */
+    function _revoke(uint256 txId) internal {
+        MultiSigWalletTransactions.revoke(_transactions, _approvalStatus, txId, msg.sender);
     }
 
     /**
-     * @dev Configures owners internally. See {MultiSigWallet-configureOwners}.
+     * @dev Cancels a transaction internally. See {MultiSigWallet-cancel}.
      */
-    function _configureOwners(address[] memory newOwners, uint16 newRequiredApprovals) internal {
-        if (newOwners.length == 0) {
-            revert EmptyOwnersArray();
-        }
-        if (newRequiredApprovals == 0) {
-            revert InvalidRequiredApprovals();
-        }
-        if (newRequiredApprovals > newOwners.length) {
-            revert InvalidRequiredApprovals();
+    function _cancel(uint256 txId) internal {
+        MultiSigWalletTransactions.cancel(_transactions, txId);
+    }
+
+    /**
+     * @dev Checks that a contract is allowed as a target of delegate call transactions.
+     */
+    function _checkDelegateCallTarget(address target) internal view {
+        if (!_delegateCallTargets[target]) {
+            revert DelegateCallTargetNotAllowed();
         }
+    }
 
-        uint256 len;
-        if (_owners.length != 0) {
-            len = _owners.length;
-            for (uint256 i = 0; i < len; i++) {
-                _isOwner[_owners[i]] = false;
-            }
+    /**
+     * @dev Returns the hash of the wallet owners, their weights and the number of required approvals.
+     *
+     * The owner flags of the `_isOwner` mapping are not included, they are expected to follow the array of owners.
+     */
+    function _hashOwners() internal view returns (bytes32) {
+        uint256 len = _owners.length;
+        uint256[] memory weights = new uint256[](len);
+        for (uint256 i = 0; i < len; ++i) {
+            weights[i] = _ownerWeights[_owners[i]];
         }
+        return keccak256(abi.encode(_owners, weights, _requiredApprovals));
+    }
 
-        address owner;
-        len = newOwners.length;
-        for (uint256 i = 0; i < len; i++) {
-            owner = newOwners[i];
+    /**
+     * @dev Configures owners internally. See {MultiSigWallet-configureOwners}.
+     */
+    function _configureOwners(address[] memory newOwners, uint16 newRequiredApprovals) internal {
+        _configureWeightedOwners(newOwners, new uint16[](0), newRequiredApprovals);
+    }
 
-            if (owner == address(0)) {
-                revert ZeroOwnerAddress();
-            }
-            if (_isOwner[owner]) {
-                revert DuplicateOwnerAddress();
-            }
+    /**
+     * @dev Configures owners with weights internally. See {MultiSigWallet-configureWeightedOwners}.
+     *
+     * An empty array of weights resets the weights of all the owners to the default one.
+     */
+    function _configureWeightedOwners(
+        address[] memory newOwners,
+        uint16[] memory newWeights,
+        uint16 newRequiredApprovals
+    ) internal {
+        MultiSigWalletOwners.configure(_owners, _isOwner, _ownerWeights, newOwners, newWeights, newRequiredApprovals);
+        _requiredApprovals = newRequiredApprovals;
+        _notifyRegistry();
+    }
 
-            _isOwner[owner] = true;
+    /**
+     * @dev Changes the number of required approvals internally. See {MultiSigWallet-changeThreshold}.
+     *
+     * The event is emitted only if the number of required approvals actually changes.
+     */
+    function _changeThreshold(uint16 newRequiredApprovals) internal {
+        MultiSigWalletOwners.checkRequiredApprovals(newRequiredApprovals, _getTotalWeight());
+        if (newRequiredApprovals != _requiredApprovals) {
+            _requiredApprovals = newRequiredApprovals;
+            emit ChangeThreshold(newRequiredApprovals);
         }
+    }
 
-        _owners = newOwners;
-        _requiredApprovals = newRequiredApprovals;
+    /**
+     * @dev Notifies the configured registry, if any, that the wallet owners have been configured.
+     */
+    function _notifyRegistry() internal {
+        if (_registry != address(0)) {
+            IMultiSigWalletRegistry(_registry).notifyOwnersConfigured();
+        }
+    }
 
-        emit ConfigureOwners(newOwners, newRequiredApprovals);
+    /**
+     * @dev Configures the registry of the wallet internally. See {MultiSigWallet-configureRegistry}.
+     */
+    function _configureRegistry(address newRegistry) internal {
+        _registry = newRegistry;
+        emit ConfigureRegistry(newRegistry);
     }
 
     /**
@@ -560,11 +1685,270 @@ abstract contract MultiSigWalletBase is MultiSigWalletStorage, IMultiSigWallet {
     }
 
     /**
-     * @dev Returns the downcasted uint128 from uint256, reverting on
-     * overflow (when the input is greater than largest uint128).
+     * @dev Returns the number of approvals given to a transaction by the current wallet owners.
+     *
+     * Approvals are recounted against the current owners, so approvals of removed owners are not counted.
+     */
+    function _getApprovalCount(uint256 txId) internal view returns (uint256 count) {
+        uint256 len = _owners.length;
+        for (uint256 i = 0; i < len; ++i) {
+            if (_approvalStatus[txId][_owners[i]]) {
+                ++count;
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the total weight of approvals given to a transaction by the current wallet owners.
+     */
+    function _getApprovalWeight(uint256 txId) internal view returns (uint256 weight) {
+        uint256 len = _owners.length;
+        address owner;
+        for (uint256 i = 0; i < len; ++i) {
+            owner = _owners[i];
+            if (_approvalStatus[txId][owner]) {
+                weight += MultiSigWalletOwners.weightOf(_ownerWeights, owner);
+            }
+        }
+    }
+
+    /**
+     * @dev Checks if a transaction can be submitted and executed while the wallet is paused.
+     * See {MultiSigWalletTransactions-isPauseExempt}.
+     */
+    function _isPauseExemptCall(
+        address to,
+        bytes memory data,
+        bool bundled,
+        Operation operation
+    ) internal view returns (bool) {
+        return !bundled && operation == Operation.Call && MultiSigWalletTransactions.isPauseExempt(to, data);
+    }
+
+    /**
+     * @dev Throws if the caller is not a wallet owner.
+     */
+    function _checkOwner() internal view {
+        if (!_isOwner[msg.sender]) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /**
+     * @dev Throws if the caller is not a wallet owner or a proposer.
+     */
+    function _checkProposer() internal view {
+        if (!_isOwner[msg.sender] && !_proposers[msg.sender]) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /**
+     * @dev Throws if the caller is not a wallet owner or an executor unless public execution is enabled.
+     */
+    function _checkExecutor() internal view {
+        if (!_isExecutor(msg.sender)) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /**
+     * @dev Throws if the caller is not the wallet itself.
+     */
+    function _checkSelfCall() internal view {
+        if (msg.sender != address(this)) {
+            revert UnauthorizedCaller();
+        }
+    }
+
+    /**
+     * @dev Checks if a transaction can be executed out of order in the ordered mode.
+     * See {MultiSigWalletTransactions-isOrderExempt}.
+     */
+    function _isOrderExemptCall(Transaction storage transaction) internal view returns (bool) {
+        return MultiSigWalletTransactions.isOrderExempt(transaction);
+    }
+
+    /**
+     * @dev Returns the lowest ID of a transaction that is not executed, cancelled, failed or expired.
+     * See {MultiSigWalletTransactions-getNextExecutable}.
+     */
+    function _getNextExecutableTxId() internal view returns (uint256) {
+        return MultiSigWalletTransactions.getNextExecutable(_transactions, _failedTransactions, _executionCursor);
+    }
+
+    /**
+     * @dev Checks if an account can execute approved transactions.
+     */
+    function _isExecutor(address account) internal view returns (bool) {
+        return _publicExecution || _isOwner[account] || _executors[account];
+    }
+
+    /**
+     * @dev Returns the total voting weight of the current wallet owners.
+     */
+    function _getTotalWeight() internal view returns (uint256) {
+        return MultiSigWalletOwners.totalWeight(_owners, _ownerWeights);
+    }
+
+    /**
+     * @dev Checks if an existing transaction has collected the number of approvals required for its execution.
+     */
+    function _hasEnoughApprovals(uint256 txId) internal view returns (bool) {
+        uint256 approvalWeight = _getApprovalWeight(txId);
+        uint256 requiredApprovals = _getRequiredApprovals(txId);
+        return
+            approvalWeight >= requiredApprovals ||
+            (approvalWeight != 0 && _isWithinDailyLimit(_transactions[txId], requiredApprovals));
+    }
+
+    /**
+     * @dev Checks if a transaction is a native token transfer that fits the remaining daily allowance.
+     *
+     * The daily limit does not apply if a destination policy requires more approvals than the wallet.
+     */
+    function _isWithinDailyLimit(
+        Transaction storage transaction,
+        uint256 requiredApprovals
+    ) internal view returns (bool) {
+        if (transaction.data.length != 0 || transaction.value == 0 || requiredApprovals > _requiredApprovals) {
+            return false;
+        }
+        uint256 spent = _getDailyLimitSpent();
+        return spent <= _dailyLimit && transaction.value <= _dailyLimit - spent;
+    }
+
+    /**
+     * @dev Returns the amount of native tokens transferred within the current daily limit period.
+     */
+    function _getDailyLimitSpent() internal view returns (uint256) {
+        if (block.timestamp >= _dailyLimitPeriodStart + DAILY_LIMIT_PERIOD) {
+            return 0;
+        }
+        return _dailyLimitSpent;
+    }
+
+    /**
+     * @dev Records a native token transfer executed within the daily limit, starting a new period if needed.
+     */
+    function _spendDailyLimit(uint256 amount) internal {
+        if (block.timestamp >= _dailyLimitPeriodStart + DAILY_LIMIT_PERIOD) {
+            _dailyLimitPeriodStart = block.timestamp;
+            _dailyLimitSpent = 0;
+        }
+        _dailyLimitSpent += amount;
+    }
+
+    /**
+     * @dev Returns the number of approvals required to execute an existing transaction.
+     *
+     * The number required by a policy is capped with the current number of owners,
+     * so a policy configured before the owners are reduced cannot lock the matching transactions.
+     * While the wallet is paused, a policy cannot lower the number of approvals required by the wallet.
+     */
+    function _getRequiredApprovals(uint256 txId) internal view returns (uint256) {
+        Transaction storage transaction = _transactions[txId];
+        (uint256 required, ) = _getRequirements(transaction.to, transaction.data, transaction.bundled);
+        if (_paused && required < _requiredApprovals) {
+            return _requiredApprovals;
+        }
+        uint256 ownersWeight = _getTotalWeight();
+        return required < ownersWeight ? required : ownersWeight;
+    }
+
+    /**
+     * @dev Returns the number of approvals and the cooldown time required for a transaction by the policies.
+     * See {MultiSigWalletPolicies-getRequirements}.
+     */
+    function _getRequirements(address to, bytes memory data, bool bundled) internal view returns (uint256, uint120) {
+        return
+            MultiSigWalletPolicies.getRequirements(
+                _destinationPolicies,
+                _selectorPolicies,
+                to,
+                data,
+                bundled,
+                _requiredApprovals,
+                _cooldownTime
+            );
+    }
+
+    /**
+     * @dev Returns the status of an existing transaction following the same rules as {_execute}.
+     */
+    function _getTransactionStatus(uint256 txId) internal view returns (TransactionStatus) {
+        Transaction storage transaction = _transactions[txId];
+        if (transaction.executed) {
+            return TransactionStatus.Executed;
+        }
+        if (transaction.cancelled) {
+            return TransactionStatus.Cancelled;
+        }
+        if (_failedTransactions[txId]) {
+            return TransactionStatus.Failed;
+        }
+        if (transaction.expiration < block.timestamp) {
+            return TransactionStatus.Expired;
+        }
+        if (transaction.cooldown > block.timestamp) {
+            return TransactionStatus.Cooldown;
+        }
+        if (
+            _paused
+                ? !_isPauseExemptCall(transaction.to, transaction.data, transaction.bundled, transaction.operation)
+                : _orderedExecution && txId != _getNextExecutableTxId() && !_isOrderExemptCall(transaction)
+        ) {
+            return TransactionStatus.Pending;
+        }
+        if (!_hasEnoughApprovals(txId)) {
+            return TransactionStatus.Pending;
+        }
+        return TransactionStatus.Executable;
+    }
+
+    /**
+     * @dev Returns a copy of the first `count` elements of an array of transaction IDs.
+     */
+    function _truncate(uint256[] memory txIds, uint256 count) internal pure returns (uint256[] memory result) {
+        result = new uint256[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            result[i] = txIds[i];
+        }
+    }
+
+    /**
+     * @dev Returns the EIP-712 typed data hash of an existing transaction.
+     */
+    function _hashTransaction(uint256 txId) internal view returns (bytes32) {
+        Transaction storage transaction = _transactions[txId];
+        bytes32 structHash = keccak256(
+            abi.encode(
+                TRANSACTION_TYPEHASH,
+                txId,
+                transaction.to,
+                transaction.value,
+                keccak256(transaction.data),
+                transaction.operation,
+                transaction.gasLimit,
+                transaction.cooldown,
+                transaction.expiration
+            )
+        );
+        return ECDSA.toTypedDataHash(_domainSeparator(), structHash);
+    }
+
+    /**
+     * @dev Returns the EIP-712 typed data hash of a message signed on behalf of the wallet.
+     */
+    function _hashMessage(bytes32 messageHash) internal view returns (bytes32) {
+        return ECDSA.toTypedDataHash(_domainSeparator(), keccak256(abi.encode(MESSAGE_TYPEHASH, messageHash)));
+    }
+
+    /**
+     * @dev Returns the EIP-712 domain separator bound to the current chain and wallet address.
      */
-    function toUint128(uint256 value) internal pure returns (uint128) {
-        require(value <= type(uint128).max, "SafeCast: value doesn't fit in 128 bits");
-        return uint128(value);
+    function _domainSeparator() internal view returns (bytes32) {
+        return
+            keccak256(abi.encode(DOMAIN_TYPEHASH, DOMAIN_NAME_HASH, DOMAIN_VERSION_HASH, block.chainid, address(this)));
     }
 }
@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { IMultiSigWalletTypes } from "./IMultiSigWallet.sol";
+import { IMultiSigWalletGuard } from "./IMultiSigWalletGuard.sol";
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+
+/**
+ * @title MultiSigWalletExecution library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of making the calls of multi-signature wallet transactions and checking them with a guard.
+ *
+ * Like {MultiSigWalletOwners}, the functions are external and executed in the context of the wallet,
+ * so the calls are made on behalf of the wallet and `msg.sender` is the account executing the transaction.
+ */
+library MultiSigWalletExecution {
+    /// @dev The gas added to the refunded amount to cover the intrinsic cost of a transaction and the refund itself.
+    uint256 internal constant REFUND_GAS_OVERHEAD = 30_000;
+
+    /// @dev The gas that must remain after a call with a gas limit to complete the execution, see EIP-150.
+    uint256 internal constant CALL_GAS_RESERVE = 2500;
+
+    /// @dev The gas required on top of the gas limit of a call to make the call, including a value transfer.
+    uint256 internal constant CALL_GAS_OVERHEAD = 40_000;
+
+    /**
+     * @dev Encodes the calls of a bundle transaction and sums up the value they send.
+     */
+    function encodeCalls(
+        IMultiSigWalletTypes.Call[] calldata calls
+    ) external pure returns (bytes memory data, uint256 value) {
+        uint256 count = calls.length;
+        if (count == 0) {
+            revert MultiSigWalletBase.EmptyCallsArray();
+        }
+
+        for (uint256 i = 0; i < count; ++i) {
+            value += calls[i].value;
+        }
+
+        data = abi.encode(calls);
+    }
+
+    /**
+     * @dev Makes the call of a transaction, or the calls of a bundle transaction one by one.
+     *
+     * A bundle transaction reverts if any of its calls fails. A delegate call executes the code of the receiver
+     * in the context of the wallet, the receiver must be checked by the wallet beforehand.
+     * The gas limit of the transaction is applied to each of the calls, zero means all available gas.
+     * The function reverts with the {MultiSigWalletBase.NotEnoughGas} error instead of reporting a failed call
+     * if the call could have failed because the executor did not provide enough gas.
+     */
+    function call(
+        IMultiSigWalletTypes.Transaction storage transaction
+    ) external returns (bool success, bytes memory result) {
+        uint256 gasLimit = transaction.gasLimit;
+        uint256 gasBefore = gasleft();
+        if (transaction.operation == IMultiSigWalletTypes.Operation.DelegateCall) {
+            (success, result) = transaction.to.delegatecall{ gas: _getCallGas(gasLimit) }(transaction.data);
+        } else if (!transaction.bundled) {
+            (success, result) = transaction.to.call{ gas: _getCallGas(gasLimit), value: transaction.value }(
+                transaction.data
+            );
+        } else {
+            IMultiSigWalletTypes.Call[] memory calls = abi.decode(transaction.data, (IMultiSigWalletTypes.Call[]));
+            uint256 count = calls.length;
+            for (uint256 i = 0; i < count; ++i) {
+                IMultiSigWalletTypes.Call memory item = calls[i];
+                gasBefore = gasleft();
+                (success, result) = item.to.call{ gas: _getCallGas(gasLimit), value: item.value }(item.data);
+                if (!success) {
+                    _checkOutOfGas(gasLimit, gasBefore);
+                    revert MultiSigWalletBase.InternalCallFailed(i, result);
+                }
+            }
+            return (true, "");
+        }
+        if (!success) {
+            _checkOutOfGas(gasLimit, gasBefore);
+        }
+    }
+
+    /**
+     * @dev Refunds the given amount of spent gas to the caller from the wallet balance.
+     *
+     * The gas price of the transaction is capped by the given maximum and the refund is capped by the balance.
+     * The refund is sent with the gas stipend of a transfer, so the caller cannot re-enter the wallet.
+     *
+     * Emits a {Refund} event if the refund is sent.
+     */
+    function refundGas(uint256 gasUsed, uint256 maxGasPrice) external {
+        uint256 gasPrice = tx.gasprice < maxGasPrice ? tx.gasprice : maxGasPrice;
+        uint256 amount = (gasUsed + REFUND_GAS_OVERHEAD) * gasPrice;
+        if (amount > address(this).balance) {
+            amount = address(this).balance;
+        }
+        if (amount != 0 && payable(msg.sender).send(amount)) {
+            emit IMultiSigWallet.Refund(msg.sender, amount);
+        }
+    }
+
+    /**
+     * @dev Returns the gas to forward to a call with the given gas limit, zero meaning all available gas.
+     *
+     * Reverts if the available gas is not enough to forward the whole gas limit because of the cost of the call
+     * and the 63/64 rule of EIP-150. The check is made within the library, after the call of the library itself.
+     */
+    function _getCallGas(uint256 gasLimit) private view returns (uint256) {
+        if (gasLimit == 0) {
+            return gasleft();
+        }
+        uint256 requiredGas = (gasLimit * 64) / 63;
+        if (requiredGas < gasLimit + CALL_GAS_RESERVE) {
+            requiredGas = gasLimit + CALL_GAS_RESERVE;
+        }
+        if (gasleft() < requiredGas + CALL_GAS_OVERHEAD) {
+            revert MultiSigWalletBase.NotEnoughGas();
+        }
+        return gasLimit;
+    }
+
+    /**
+     * @dev Reverts if a failed call without a gas limit could have run out of the gas provided by the executor.
+     *
+     * Such a call gets all but 1/64 of the available gas, so it is not reported as failed
+     * if no more than that remains after it.
+     */
+    function _checkOutOfGas(uint256 gasLimit, uint256 gasBefore) private view {
+        if (gasLimit == 0 && gasleft() <= gasBefore / 64) {
+            revert MultiSigWalletBase.NotEnoughGas();
+        }
+    }
+
+    /**
+     * @dev Passes a transaction to the guard before its execution. See {IMultiSigWalletGuard-checkTransaction}.
+     */
+    function checkTransaction(
+        address guard,
+        uint256 txId,
+        IMultiSigWalletTypes.Transaction storage transaction
+    ) external {
+        IMultiSigWalletGuard(guard).checkTransaction(txId, transaction, msg.sender);
+    }
+
+    /**
+     * @dev Passes the result of a transaction to the guard. See {IMultiSigWalletGuard-checkAfterExecution}.
+     */
+    function checkAfterExecution(address guard, uint256 txId, bool success, bytes memory result) external {
+        IMultiSigWalletGuard(guard).checkAfterExecution(txId, success, result);
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+
+/**
+ * @title MultiSigWalletModules library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of managing the list of modules enabled in a multi-signature wallet.
+ *
+ * Like {MultiSigWalletOwners}, the functions are external and executed in the context of the wallet.
+ *
+ * The position of a module is its index in the list of modules plus one, so the zero position means
+ * that the module is not enabled.
+ */
+library MultiSigWalletModules {
+    /**
+     * @dev Adds a module to the end of the list of modules. See {MultiSigWallet-enableModule}.
+     *
+     * Emits an {EnableModule} event.
+     */
+    function enable(address[] storage modules, mapping(address => uint256) storage positions, address module) external {
+        if (module == address(0)) {
+            revert MultiSigWalletBase.ZeroModuleAddress();
+        }
+        if (positions[module] != 0) {
+            revert MultiSigWalletBase.ModuleAlreadyEnabled();
+        }
+
+        modules.push(module);
+        positions[module] = modules.length;
+
+        emit IMultiSigWallet.EnableModule(module);
+    }
+
+    /**
+     * @dev Removes a module by moving the last module into its position. See {MultiSigWallet-disableModule}.
+     *
+     * Emits a {DisableModule} event.
+     */
+    function disable(
+        address[] storage modules,
+        mapping(address => uint256) storage positions,
+        address module
+    ) external {
+        uint256 position = positions[module];
+        if (position == 0) {
+            revert MultiSigWalletBase.ModuleNotEnabled();
+        }
+
+        uint256 lastPosition = modules.length;
+        if (position != lastPosition) {
+            address lastModule = modules[lastPosition - 1];
+            modules[position - 1] = lastModule;
+            positions[lastModule] = position;
+        }
+        modules.pop();
+        delete positions[module];
+
+        emit IMultiSigWallet.DisableModule(module);
+    }
+
+    /**
+     * @dev Returns a page of the list of modules. See {MultiSigWallet-getModules}.
+     */
+    function getPage(
+        address[] storage modules,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory page) {
+        uint256 len = modules.length;
+        if (offset >= len || limit == 0) {
+            return page;
+        }
+        if (limit > len - offset) {
+            limit = len - offset;
+        }
+        page = new address[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = modules[offset + i];
+        }
+    }
+}
@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+
+/**
+ * @title MultiSigWalletOwners library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of managing the list of multi-signature wallet owners and their weights.
+ *
+ * The functions are external, so the library is deployed separately and linked to the wallet contracts,
+ * which keeps the wallet bytecode within the contract size limit. The functions are executed in the context
+ * of the wallet, so the errors and events below are reverted and emitted on behalf of the wallet.
+ *
+ * The number of required approvals is stored and changed by the wallet itself.
+ *
+ * The zero stored weight of an owner means the default weight of one, so a wallet without configured weights
+ * counts one vote per owner. A non-zero weight is stored only for current owners.
+ */
+library MultiSigWalletOwners {
+    /// @dev The weight of an owner that has no weight configured.
+    uint256 internal constant DEFAULT_WEIGHT = 1;
+
+    /**
+     * @dev Replaces all the wallet owners and their weights. See {MultiSigWallet-configureWeightedOwners}.
+     *
+     * An empty array of weights resets the weights of all the owners to the default one.
+     *
+     * Emits a {ConfigureOwners} event.
+     * Emits a {ConfigureOwnerWeights} event if the array of weights is not empty.
+     */
+    function configure(
+        address[] storage owners,
+        mapping(address => bool) storage isOwner,
+        mapping(address => uint16) storage weights,
+        address[] memory newOwners,
+        uint16[] memory newWeights,
+        uint16 newRequiredApprovals
+    ) external {
+        if (newOwners.length == 0) {
+            revert MultiSigWalletBase.EmptyOwnersArray();
+        }
+        bool weighted = newWeights.length != 0;
+        if (weighted && newWeights.length != newOwners.length) {
+            revert MultiSigWalletBase.InvalidOwnerWeights();
+        }
+
+        // The storage array is passed by reference, so it is rebuilt element by element
+        uint256 len = owners.length;
+        address owner;
+        for (; len != 0; len--) {
+            owner = owners[len - 1];
+            isOwner[owner] = false;
+            delete weights[owner];
+            owners.pop();
+        }
+
+        uint256 total = 0;
+        len = newOwners.length;
+        for (uint256 i = 0; i < len; i++) {
+            owner = newOwners[i];
+
+            if (owner == address(0)) {
+                revert MultiSigWalletBase.ZeroOwnerAddress();
+            }
+            if (isOwner[owner]) {
+                revert MultiSigWalletBase.DuplicateOwnerAddress();
+            }
+
+            isOwner[owner] = true;
+            owners.push(owner);
+
+            if (weighted) {
+                if (newWeights[i] == 0) {
+                    revert MultiSigWalletBase.InvalidOwnerWeights();
+                }
+                weights[owner] = newWeights[i];
+                total += newWeights[i];
+            } else {
+                total += DEFAULT_WEIGHT;
+            }
+        }
+        checkRequiredApprovals(newRequiredApprovals, total);
+
+        emit IMultiSigWallet.ConfigureOwners(newOwners, newRequiredApprovals);
+        if (weighted) {
+            emit IMultiSigWallet.ConfigureOwnerWeights(newOwners, newWeights);
+        }
+    }
+
+    /**
+     * @dev Adds a new owner with the default weight to the end of the list of owners. See {MultiSigWallet-addOwner}.
+     *
+     * Emits an {AddOwner} event.
+     */
+    function add(address[] storage owners, mapping(address => bool) storage isOwner, address owner) external {
+        _checkNewOwner(isOwner, owner);
+
+        owners.push(owner);
+        isOwner[owner] = true;
+
+        emit IMultiSigWallet.AddOwner(owner);
+    }
+
+    /**
+     * @dev Removes an owner by moving the last owner into its position. See {MultiSigWallet-removeOwner}.
+     *
+     * Emits a {RemoveOwner} event.
+     */
+    function remove(
+        address[] storage owners,
+        mapping(address => bool) storage isOwner,
+        mapping(address => uint16) storage weights,
+        address owner
+    ) external {
+        uint256 index = _getIndex(owners, isOwner, owner);
+        uint256 lastIndex = owners.length - 1;
+
+        if (index != lastIndex) {
+            owners[index] = owners[lastIndex];
+        }
+        owners.pop();
+        isOwner[owner] = false;
+        delete weights[owner];
+
+        emit IMultiSigWallet.RemoveOwner(owner);
+    }
+
+    /**
+     * @dev Replaces an owner keeping its position and weight. See {MultiSigWallet-replaceOwner}.
+     *
+     * Emits a {ReplaceOwner} event.
+     */
+    function replace(
+        address[] storage owners,
+        mapping(address => bool) storage isOwner,
+        mapping(address => uint16) storage weights,
+        address oldOwner,
+        address newOwner
+    ) external {
+        uint256 index = _getIndex(owners, isOwner, oldOwner);
+        _checkNewOwner(isOwner, newOwner);
+
+        owners[index] = newOwner;
+        isOwner[oldOwner] = false;
+        isOwner[newOwner] = true;
+        weights[newOwner] = weights[oldOwner];
+        delete weights[oldOwner];
+
+        emit IMultiSigWallet.ReplaceOwner(oldOwner, newOwner);
+    }
+
+    /**
+     * @dev Returns the weight of an owner taking into account the default weight.
+     */
+    function weightOf(mapping(address => uint16) storage weights, address owner) internal view returns (uint256) {
+        uint256 weight = weights[owner];
+        return weight == 0 ? DEFAULT_WEIGHT : weight;
+    }
+
+    /**
+     * @dev Returns the total weight of all the owners.
+     */
+    function totalWeight(
+        address[] storage owners,
+        mapping(address => uint16) storage weights
+    ) internal view returns (uint256 total) {
+        uint256 len = owners.length;
+        for (uint256 i = 0; i < len; i++) {
+            total += weightOf(weights, owners[i]);
+        }
+    }
+
+    /**
+     * @dev Checks that a number of required approvals is valid for a given total weight of owners.
+     */
+    function checkRequiredApprovals(uint16 newRequiredApprovals, uint256 ownersWeight) internal pure {
+        if (newRequiredApprovals == 0) {
+            revert MultiSigWalletBase.InvalidRequiredApprovals();
+        }
+        if (newRequiredApprovals > ownersWeight) {
+            revert MultiSigWalletBase.InvalidRequiredApprovals();
+        }
+    }
+
+    /**
+     * @dev Checks that an account can become a new owner.
+     */
+    function _checkNewOwner(mapping(address => bool) storage isOwner, address owner) private view {
+        if (owner == address(0)) {
+            revert MultiSigWalletBase.ZeroOwnerAddress();
+        }
+        if (isOwner[owner]) {
+            revert MultiSigWalletBase.DuplicateOwnerAddress();
+        }
+    }
+
+    /**
+     * @dev Returns the index of an owner in the list of owners or reverts if the account is not an owner.
+     */
+    function _getIndex(
+        address[] storage owners,
+        mapping(address => bool) storage isOwner,
+        address owner
+    ) private view returns (uint256 index) {
+        if (!isOwner[owner]) {
+            revert MultiSigWalletBase.OwnerNotExist();
+        }
+        while (owners[index] != owner) {
+            index++;
+        }
+    }
+}
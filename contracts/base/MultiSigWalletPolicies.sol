@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { IMultiSigWalletTypes } from "./IMultiSigWallet.sol";
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+
+/**
+ * @title MultiSigWalletPolicies library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of configuring and matching the execution policies of a multi-signature wallet.
+ *
+ * Like {MultiSigWalletOwners}, the functions are external and executed in the context of the wallet.
+ */
+library MultiSigWalletPolicies {
+    /**
+     * @dev Configures the execution policy of a destination. See {MultiSigWallet-configureDestinationPolicy}.
+     *
+     * Emits a {ConfigureDestinationPolicy} event.
+     */
+    function configureDestination(
+        mapping(address => IMultiSigWalletTypes.Policy) storage destinationPolicies,
+        address to,
+        IMultiSigWalletTypes.Policy calldata policy,
+        uint256 ownersWeight
+    ) external {
+        _validate(policy, ownersWeight);
+        destinationPolicies[to] = policy;
+        emit IMultiSigWallet.ConfigureDestinationPolicy(
+            to,
+            policy.enabled,
+            policy.requiredApprovals,
+            policy.cooldownTime
+        );
+    }
+
+    /**
+     * @dev Configures the execution policy of a function selector. See {MultiSigWallet-configureSelectorPolicy}.
+     *
+     * Emits a {ConfigureSelectorPolicy} event.
+     */
+    function configureSelector(
+        mapping(address => mapping(bytes4 => IMultiSigWalletTypes.Policy)) storage selectorPolicies,
+        address to,
+        bytes4 selector,
+        IMultiSigWalletTypes.Policy calldata policy,
+        uint256 ownersWeight
+    ) external {
+        _validate(policy, ownersWeight);
+        selectorPolicies[to][selector] = policy;
+        emit IMultiSigWallet.ConfigureSelectorPolicy(
+            to,
+            selector,
+            policy.enabled,
+            policy.requiredApprovals,
+            policy.cooldownTime
+        );
+    }
+
+    /**
+     * @dev Returns the number of approvals and the cooldown time required for a transaction by the policies.
+     *
+     * The given defaults are applied to a transaction without an enabled policy. For a bundle transaction
+     * the maximums across the calls of the bundle are returned, so a bundle cannot bypass the policy of any call.
+     */
+    function getRequirements(
+        mapping(address => IMultiSigWalletTypes.Policy) storage destinationPolicies,
+        mapping(address => mapping(bytes4 => IMultiSigWalletTypes.Policy)) storage selectorPolicies,
+        address to,
+        bytes memory data,
+        bool bundled,
+        uint256 defaultApprovals,
+        uint120 defaultCooldownTime
+    ) external view returns (uint256 requiredApprovals, uint120 cooldownTime) {
+        if (!bundled) {
+            return
+                _getRequirements(
+                    destinationPolicies,
+                    selectorPolicies,
+                    to,
+                    data,
+                    defaultApprovals,
+                    defaultCooldownTime
+                );
+        }
+
+        IMultiSigWalletTypes.Call[] memory calls = abi.decode(data, (IMultiSigWalletTypes.Call[]));
+        uint256 count = calls.length;
+        for (uint256 i = 0; i < count; ++i) {
+            (uint256 callApprovals, uint120 callCooldownTime) = _getRequirements(
+                destinationPolicies,
+                selectorPolicies,
+                calls[i].to,
+                calls[i].data,
+                defaultApprovals,
+                defaultCooldownTime
+            );
+            if (callApprovals > requiredApprovals) {
+                requiredApprovals = callApprovals;
+            }
+            if (callCooldownTime > cooldownTime) {
+                cooldownTime = callCooldownTime;
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the requirements of the policy matching a single call, or the defaults if no policy is enabled.
+     *
+     * A selector policy of the receiver takes precedence over its destination policy.
+     */
+    function _getRequirements(
+        mapping(address => IMultiSigWalletTypes.Policy) storage destinationPolicies,
+        mapping(address => mapping(bytes4 => IMultiSigWalletTypes.Policy)) storage selectorPolicies,
+        address to,
+        bytes memory data,
+        uint256 defaultApprovals,
+        uint120 defaultCooldownTime
+    ) private view returns (uint256, uint120) {
+        IMultiSigWalletTypes.Policy memory policy;
+        if (data.length >= 4) {
+            policy = selectorPolicies[to][bytes4(data)];
+        }
+        if (!policy.enabled) {
+            policy = destinationPolicies[to];
+        }
+        if (!policy.enabled) {
+            return (defaultApprovals, defaultCooldownTime);
+        }
+        return (policy.requiredApprovals, policy.cooldownTime);
+    }
+
+    /**
+     * @dev Checks that an execution policy can be applied with the given total weight of the wallet owners.
+     */
+    function _validate(IMultiSigWalletTypes.Policy calldata policy, uint256 ownersWeight) private pure {
+        if (policy.enabled && (policy.requiredApprovals == 0 || policy.requiredApprovals > ownersWeight)) {
+            revert MultiSigWalletBase.InvalidRequiredApprovals();
+        }
+    }
+}
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+import { MultiSigWalletOwners } from "./MultiSigWalletOwners.sol";
+
+/**
+ * @title MultiSigWalletSignatures library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of verifying ECDSA signatures of multi-signature wallet owners.
+ *
+ * Like {MultiSigWalletOwners}, the functions are external and executed in the context of the wallet.
+ * The typed data hashes to be signed are built by the wallet itself.
+ */
+library MultiSigWalletSignatures {
+    /// @dev The length of a single ECDSA signature of an owner.
+    uint256 internal constant SIGNATURE_LENGTH = 65;
+
+    /**
+     * @dev Returns the owner who signed a hash or reverts if the signature is invalid or made by a non-owner.
+     */
+    function recoverOwner(
+        mapping(address => bool) storage isOwner,
+        bytes32 hash,
+        bytes calldata signature
+    ) external view returns (address signer) {
+        ECDSA.RecoverError error;
+        (signer, error) = ECDSA.tryRecover(hash, signature);
+        if (error != ECDSA.RecoverError.NoError) {
+            revert MultiSigWalletBase.InvalidSignature();
+        }
+        if (!isOwner[signer]) {
+            revert MultiSigWalletBase.UnauthorizedSigner();
+        }
+    }
+
+    /**
+     * @dev Checks that concatenated owner signatures of a hash reach a given total weight.
+     *
+     * Signers must be distinct owners sorted in ascending order of their addresses.
+     */
+    function checkOwnerSignatures(
+        mapping(address => bool) storage isOwner,
+        mapping(address => uint16) storage weights,
+        bytes32 hash,
+        bytes calldata signatures,
+        uint256 requiredWeight
+    ) external view returns (bool) {
+        if (signatures.length % SIGNATURE_LENGTH != 0) {
+            return false;
+        }
+        uint256 count = signatures.length / SIGNATURE_LENGTH;
+        uint256 weight = 0;
+
+        address previousSigner = address(0);
+        for (uint256 i = 0; i < count; ++i) {
+            uint256 offset = i * SIGNATURE_LENGTH;
+            (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(
+                hash,
+                signatures[offset:offset + SIGNATURE_LENGTH]
+            );
+            if (error != ECDSA.RecoverError.NoError || signer <= previousSigner || !isOwner[signer]) {
+                return false;
+            }
+            previousSigner = signer;
+            weight += MultiSigWalletOwners.weightOf(weights, signer);
+        }
+
+        return weight >= requiredWeight;
+    }
+}
@@ -18,7 +18,7 @@ abstract contract MultiSigWalletStorageV1 is IMultiSigWalletTypes {
     /// @dev The mapping of the ownership status for a given account.
     mapping(address => bool) internal _isOwner;
 
-    /// @dev The mapping of the number of approvals for a given transaction.
+    /// @dev Deprecated. Approvals are recounted against the current owners, see {MultiSigWalletBase-_getApprovalCount}.
     mapping(uint256 => uint256) internal _approvalCount;
 
     /// @dev The mapping of the approval status for a given owner and transaction.
@@ -34,6 +34,84 @@ abstract contract MultiSigWalletStorageV1 is IMultiSigWalletTypes {
     uint120 internal _cooldownTime;
 }
 
+/**
+ * @title MultiSigWallet storage - version 2
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ */
+abstract contract MultiSigWalletStorageV2 is IMultiSigWalletTypes {
+    /// @dev The mapping of the usage status of an approval signature for a given transaction and owner.
+    mapping(uint256 => mapping(address => bool)) internal _approvalSignatureUsed;
+
+    /// @dev The mapping of the signed status for a given message hash approved through the wallet transaction.
+    mapping(bytes32 => bool) internal _signedMessages;
+
+    /// @dev The mapping of the execution policy for a given transaction receiver.
+    mapping(address => Policy) internal _destinationPolicies;
+
+    /// @dev The mapping of the execution policy for a given transaction receiver and function selector.
+    mapping(address => mapping(bytes4 => Policy)) internal _selectorPolicies;
+
+    /// @dev The maximum amount of native tokens that can be transferred per day with a single approval.
+    uint256 internal _dailyLimit;
+
+    /// @dev The amount of native tokens transferred with a single approval within the current daily limit period.
+    uint256 internal _dailyLimitSpent;
+
+    /// @dev The timestamp when the current daily limit period started.
+    uint256 internal _dailyLimitPeriodStart;
+
+    /// @dev The mapping of the allowance status for a given target of delegate call transactions.
+    mapping(address => bool) internal _delegateCallTargets;
+
+    /// @dev The address of the registry notified when the wallet owners are configured.
+    address internal _registry;
+
+    /// @dev The mapping of the voting weight for a given owner, where zero means the default weight of one.
+    mapping(address => uint16) internal _ownerWeights;
+
+    /// @dev The mapping of the proposer role status for a given account that is not necessarily a wallet owner.
+    mapping(address => bool) internal _proposers;
+
+    /// @dev The mapping of the executor role status for a given account that is not necessarily a wallet owner.
+    mapping(address => bool) internal _executors;
+
+    /// @dev True if any account can execute transactions that have collected the required approvals.
+    bool internal _publicExecution;
+
+    /// @dev The address of the guard that checks transactions before and after their execution.
+    address internal _guard;
+
+    /// @dev The array of modules allowed to execute transactions from the wallet without approvals.
+    address[] internal _modules;
+
+    /// @dev The mapping of the position in the array of modules for a given module, see {MultiSigWalletModules}.
+    mapping(address => uint256) internal _modulePositions;
+
+    /// @dev True if the submission and execution of transactions are paused.
+    bool internal _paused;
+
+    /// @dev The maximum cooldown time that can be requested for a transaction on submission.
+    uint120 internal _maxCooldownTime;
+
+    /// @dev The maximum expiration time that can be requested for a transaction on submission.
+    uint120 internal _maxExpirationTime;
+
+    /// @dev True if transactions can be executed only in the order of their IDs.
+    bool internal _orderedExecution;
+
+    /// @dev The ID below which all transactions are executed, cancelled or expired, see {nextExecutableTxId}.
+    uint256 internal _executionCursor;
+
+    /// @dev True if a failed call of a transaction marks the transaction as failed instead of reverting.
+    bool internal _tryExecution;
+
+    /// @dev The mapping of the failure status for a given transaction executed in the try execution mode.
+    mapping(uint256 => bool) internal _failedTransactions;
+
+    /// @dev The maximum gas price at which the gas spent by executors is refunded, zero if refunds are disabled.
+    uint256 internal _maxRefundGasPrice;
+}
+
 /**
  * @title MultiSigWallet storage
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
@@ -43,4 +121,4 @@ abstract contract MultiSigWalletStorageV1 is IMultiSigWalletTypes {
  * e.g. MultiSigWalletStorage<versionNumber>, so at the end it would look like
  * "contract MultiSigWalletStorage is MultiSigWalletStorageV1, MultiSigWalletStorageV2".
  */
-abstract contract MultiSigWalletStorage is MultiSigWalletStorageV1 {}
+abstract contract MultiSigWalletStorage is MultiSigWalletStorageV1, MultiSigWalletStorageV2 {}
@@ -0,0 +1,204 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import { IMultiSigWallet } from "./IMultiSigWallet.sol";
+import { IMultiSigWalletTypes } from "./IMultiSigWallet.sol";
+import { MultiSigWalletBase } from "./MultiSigWalletBase.sol";
+
+/**
+ * @title MultiSigWalletTransactions library
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Contains the logic of storing, approving and cancelling the transactions of a multi-signature wallet.
+ *
+ * Like {MultiSigWalletOwners}, the functions are external and executed in the context of the wallet.
+ */
+library MultiSigWalletTransactions {
+    /**
+     * @dev Stores a new transaction with the given options, its cooldown and expiration periods start from now.
+     *
+     * The periods are limited by the uint120 type, so the resulting timestamps always fit into the uint128 type.
+     *
+     * Emits a {Submit} event.
+     */
+    function add(
+        IMultiSigWalletTypes.Transaction[] storage transactions,
+        address to,
+        uint256 value,
+        bytes memory data,
+        bool bundled,
+        IMultiSigWalletTypes.SubmitOptions memory options
+    ) external returns (uint256 txId) {
+        uint256 cooldown = block.timestamp + options.cooldownTime;
+
+        txId = transactions.length;
+        IMultiSigWalletTypes.Transaction storage transaction = transactions.push();
+        transaction.to = to;
+        transaction.bundled = bundled;
+        transaction.operation = options.operation;
+        transaction.gasLimit = options.gasLimit;
+        transaction.cooldown = uint128(cooldown);
+        transaction.expiration = uint128(cooldown + options.expirationTime);
+        transaction.value = value;
+        transaction.data = data;
+
+        emit IMultiSigWallet.Submit(msg.sender, txId);
+    }
+
+    /**
+     * @dev Approves an open transaction on behalf of an owner. See {MultiSigWallet-approve}.
+     *
+     * Emits an {Approve} event.
+     */
+    function approve(
+        IMultiSigWalletTypes.Transaction[] storage transactions,
+        mapping(uint256 => mapping(address => bool)) storage approvalStatus,
+        uint256 txId,
+        address owner
+    ) external {
+        if (approvalStatus[txId][owner]) {
+            revert MultiSigWalletBase.TransactionAlreadyApproved();
+        }
+        _checkOpen(transactions, txId);
+
+        approvalStatus[txId][owner] = true;
+
+        emit IMultiSigWallet.Approve(owner, txId);
+    }
+
+    /**
+     * @dev Revokes the approval of an open transaction on behalf of an owner. See {MultiSigWallet-revoke}.
+     *
+     * Emits a {Revoke} event.
+     */
+    function revoke(
+        IMultiSigWalletTypes.Transaction[] storage transactions,
+        mapping(uint256 => mapping(address => bool)) storage approvalStatus,
+        uint256 txId,
+        address owner
+    ) external {
+        _checkOpen(transactions, txId);
+        if (!approvalStatus[txId][owner]) {
+            revert MultiSigWalletBase.TransactionNotApproved();
+        }
+
+        approvalStatus[txId][owner] = false;
+
+        emit IMultiSigWallet.Revoke(owner, txId);
+    }
+
+    /**
+     * @dev Cancels a transaction that is not executed or cancelled yet. See {MultiSigWallet-cancel}.
+     *
+     * Emits a {Cancel} event.
+     */
+    function cancel(IMultiSigWalletTypes.Transaction[] storage transactions, uint256 txId) external {
+        if (txId >= transactions.length) {
+            revert MultiSigWalletBase.TransactionNotExist();
+        }
+
+        IMultiSigWalletTypes.Transaction storage transaction = transactions[txId];
+
+        if (transaction.executed) {
+            revert MultiSigWalletBase.TransactionAlreadyExecuted();
+        }
+        if (transaction.cancelled) {
+            revert MultiSigWalletBase.TransactionCancelled();
+        }
+
+        transaction.cancelled = true;
+
+        emit IMultiSigWallet.Cancel(txId);
+    }
+
+    /**
+     * @dev Returns the lowest ID of a transaction that is not executed, cancelled, failed or expired.
+     *
+     * The search starts from the execution cursor, because all the transactions below it are already closed.
+     * The number of transactions is returned if there is no such transaction.
+     */
+    function getNextExecutable(
+        IMultiSigWalletTypes.Transaction[] storage transactions,
+        mapping(uint256 => bool) storage failedTransactions,
+        uint256 cursor
+    ) external view returns (uint256 txId) {
+        uint256 len = transactions.length;
+        for (txId = cursor; txId < len; ++txId) {
+            IMultiSigWalletTypes.Transaction storage transaction = transactions[txId];
+            if (
+                !transaction.executed &&
+                !transaction.cancelled &&
+                !failedTransactions[txId] &&
+                transaction.expiration >= block.timestamp
+            ) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Checks if a transaction can be executed out of order in the ordered mode.
+     *
+     * These are the plain calls of the wallet that cancel transactions or configure the mode itself,
+     * so a transaction that is not going to be executed does not block the ones that would remove it.
+     */
+    function isOrderExempt(IMultiSigWalletTypes.Transaction storage transaction) external view returns (bool) {
+        bytes memory data = transaction.data;
+        if (
+            transaction.to != address(this) ||
+            transaction.bundled ||
+            transaction.operation != IMultiSigWalletTypes.Operation.Call ||
+            data.length < 4
+        ) {
+            return false;
+        }
+        bytes4 selector = bytes4(data);
+        return
+            selector == IMultiSigWallet.cancel.selector ||
+            selector == IMultiSigWallet.cancelBatch.selector ||
+            selector == IMultiSigWallet.configureOrderedExecution.selector;
+    }
+
+    /**
+     * @dev Checks if a plain call can be submitted and executed while the wallet is paused.
+     *
+     * These are the calls of the wallet that lift the pause, cancel transactions or change the owners,
+     * so the owners can remove the transactions and the key that caused the pause before lifting it.
+     */
+    function isPauseExempt(address to, bytes memory data) external view returns (bool) {
+        if (to != address(this) || data.length < 4) {
+            return false;
+        }
+        bytes4 selector = bytes4(data);
+        return
+            selector == IMultiSigWallet.unpause.selector ||
+            selector == IMultiSigWallet.cancel.selector ||
+            selector == IMultiSigWallet.cancelBatch.selector ||
+            selector == IMultiSigWallet.addOwner.selector ||
+            selector == IMultiSigWallet.removeOwner.selector ||
+            selector == IMultiSigWallet.replaceOwner.selector ||
+            selector == IMultiSigWallet.configureOwners.selector ||
+            selector == IMultiSigWallet.configureWeightedOwners.selector;
+    }
+
+    /**
+     * @dev Checks that a transaction exists and is not executed, cancelled or expired.
+     */
+    function _checkOpen(IMultiSigWalletTypes.Transaction[] storage transactions, uint256 txId) private view {
+        if (txId >= transactions.length) {
+            revert MultiSigWalletBase.TransactionNotExist();
+        }
+
+        IMultiSigWalletTypes.Transaction storage transaction = transactions[txId];
+
+        if (transaction.executed) {
+            revert MultiSigWalletBase.TransactionAlreadyExecuted();
+        }
+        if (transaction.cancelled) {
+            revert MultiSigWalletBase.TransactionCancelled();
+        }
+        if (transaction.expiration < block.timestamp) {
+            revert MultiSigWalletBase.TransactionExpired();
+        }
+    }
+}
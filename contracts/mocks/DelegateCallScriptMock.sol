@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/**
+ * @title DelegateCallScriptMock contract
+ * @dev Simple script contract to be executed by the wallet with a delegate call for test purposes.
+ */
+contract DelegateCallScriptMock {
+    // ------------------ Events ---------------------------------- //
+
+    /// @dev Emitted when `run` function is executed.
+    event ScriptExecuted(address sender, address self, uint256 amount);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev A test error with some message
+    error ScriptError(string message);
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Test function.
+     * Emits a {ScriptExecuted} event.
+     */
+    function run(uint256 amount) external {
+        emit ScriptExecuted(msg.sender, address(this), amount);
+    }
+
+    /**
+     * @dev Writes a value to an arbitrary storage slot of the caller context.
+     */
+    function writeSlot(uint256 slot, bytes32 value) external {
+        assembly {
+            sstore(slot, value)
+        }
+    }
+
+    /**
+     * @dev Always reverts.
+     */
+    function fail() external pure {
+        revert ScriptError("Script failed");
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import { ERC1155 } from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/**
+ * @title ERC1155TokenMock contract
+ * @dev Simple ERC-1155 token mock contract for test purposes.
+ */
+contract ERC1155TokenMock is ERC1155 {
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev Constructor that sets an empty token URI.
+     */
+    constructor() ERC1155("") {}
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Mints tokens of the given type to an account.
+     * @param to The address of the tokens receiver.
+     * @param id The ID of the token type to mint.
+     * @param amount The amount of tokens to mint.
+     */
+    function mint(address to, uint256 id, uint256 amount) external {
+        _mint(to, id, amount, "");
+    }
+
+    /**
+     * @dev Mints tokens of multiple types to an account.
+     * @param to The address of the tokens receiver.
+     * @param ids The array of IDs of the token types to mint.
+     * @param amounts The array of amounts of tokens to mint for each type.
+     */
+    function mintBatch(address to, uint256[] calldata ids, uint256[] calldata amounts) external {
+        _mintBatch(to, ids, amounts, "");
+    }
+}
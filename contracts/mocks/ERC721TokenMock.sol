@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title ERC721TokenMock contract
+ * @dev Simple ERC-721 token mock contract for test purposes.
+ */
+contract ERC721TokenMock is ERC721 {
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev Constructor that sets the token name and symbol.
+     */
+    constructor() ERC721("ERC721 Test", "TEST721") {}
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Safely mints a token with the given ID to an account.
+     * @param to The address of the token receiver.
+     * @param tokenId The ID of the token to mint.
+     */
+    function safeMint(address to, uint256 tokenId) external {
+        _safeMint(to, tokenId);
+    }
+
+    /**
+     * @dev Mints a token with the given ID to an account without the receiver check.
+     * @param to The address of the token receiver.
+     * @param tokenId The ID of the token to mint.
+     */
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import { IMultiSigWalletTypes } from "../base/IMultiSigWallet.sol";
+import { IMultiSigWalletGuard } from "../base/IMultiSigWalletGuard.sol";
+
+/**
+ * @title MultiSigWalletGuardMock contract
+ * @dev Simple guard contract for test purposes that limits the value and the receivers of wallet transactions.
+ */
+contract MultiSigWalletGuardMock is IMultiSigWalletGuard {
+    // ------------------ Storage --------------------------------- //
+
+    /// @dev The maximum value of a transaction.
+    uint256 public maxValue;
+
+    /// @dev The address that transactions must not be sent to.
+    address public forbiddenReceiver;
+
+    /// @dev True if the guard must revert after the execution of a transaction.
+    bool public failAfterExecution;
+
+    // ------------------ Events ---------------------------------- //
+
+    /// @dev Emitted when the `checkTransaction` function is executed.
+    event CheckTransaction(address wallet, uint256 txId, address to, uint256 value, address executor);
+
+    /// @dev Emitted when the `checkAfterExecution` function is executed.
+    event CheckAfterExecution(address wallet, uint256 txId, bool success, bytes result);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev A test error with some message
+    error GuardError(string message);
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Sets the parameters of the guard.
+     */
+    function configure(uint256 newMaxValue, address newForbiddenReceiver, bool newFailAfterExecution) external {
+        maxValue = newMaxValue;
+        forbiddenReceiver = newForbiddenReceiver;
+        failAfterExecution = newFailAfterExecution;
+    }
+
+    /**
+     * @dev See {IMultiSigWalletGuard-checkTransaction}.
+     * Emits a {CheckTransaction} event.
+     * Reverts if the transaction exceeds the maximum value or is sent to the forbidden receiver.
+     */
+    function checkTransaction(
+        uint256 txId,
+        IMultiSigWalletTypes.Transaction calldata transaction,
+        address executor
+    ) external {
+        if (transaction.value > maxValue) {
+            revert GuardError("Value is too high");
+        }
+        if (transaction.to == forbiddenReceiver) {
+            revert GuardError("Receiver is forbidden");
+        }
+        emit CheckTransaction(msg.sender, txId, transaction.to, transaction.value, executor);
+    }
+
+    /**
+     * @dev See {IMultiSigWalletGuard-checkAfterExecution}.
+     * Emits a {CheckAfterExecution} event.
+     * Reverts if it is configured to fail after the execution.
+     */
+    function checkAfterExecution(uint256 txId, bool success, bytes calldata result) external {
+        if (failAfterExecution) {
+            revert GuardError("Execution result is rejected");
+        }
+        emit CheckAfterExecution(msg.sender, txId, success, result);
+    }
+}
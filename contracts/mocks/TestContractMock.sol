@@ -28,12 +28,21 @@ contract TestContractMock {
      * @dev Test function.
      * Emits a {TestEvent} event.
      * Reverts when the contract is disabled.
+     * Returns the passed amount.
      */
-    function testFunction(uint256 amount) external payable {
+    function testFunction(uint256 amount) external payable returns (uint256) {
         emit TestEvent(msg.sender, msg.value, amount);
         if (_disabled) {
             revert TestError("Contract is disabled");
         }
+        return amount;
+    }
+
+    /**
+     * @dev Consumes all the gas provided to the call.
+     */
+    function consumeGas() external pure {
+        while (true) {}
     }
 
     /**
@@ -22,6 +22,7 @@ const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
+      viaIR: true,
       optimizer: {
         enabled: true,
         runs: Number(process.env.OPTIMIZER_RUNS ?? 1000),
@@ -2,9 +2,23 @@ import { ethers, upgrades } from "hardhat";
 
 async function main() {
   const CONTRACT_NAME = ""; // TBD: Enter contract name
+  const LIBRARY_NAMES: string[] = []; // TBD: Enter names of external libraries linked to the contract, if any
 
-  const factory = await ethers.getContractFactory(CONTRACT_NAME);
-  const proxy = await upgrades.deployProxy(factory);
+  // The wallet contracts are linked with the external libraries listed in the "Smart contracts" section of the docs
+
+  const libraries: Record<string, string> = {};
+  for (const name of LIBRARY_NAMES) {
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+
+    console.log(`Library ${name} deployed to:`, libraries[name]);
+  }
+
+  const factory = await ethers.getContractFactory(CONTRACT_NAME, { libraries });
+  const proxy = await upgrades.deployProxy(factory, {
+    unsafeAllow: LIBRARY_NAMES.length !== 0 ? ["external-library-linking"] : [],
+  });
 
   await proxy.waitForDeployment();
 
@@ -3,13 +3,33 @@ import { ethers, upgrades } from "hardhat";
 async function main() {
   const CONTRACT_NAME = ""; // TBD: Enter contract name
   const PROXY_ADDRESS = ""; // TBD: Enter proxy address
+  const LIBRARY_NAMES: string[] = []; // TBD: Enter names of external libraries linked to the contract, if any
+  const LIBRARY_ADDRESSES: Record<string, string> = {}; // TBD: Enter addresses of already deployed libraries, if any
+
+  // The wallet contracts are linked with the external libraries listed in the "Smart contracts" section of the docs
+  // The libraries without a deployed address are deployed before the upgrade.
 
   // Upgrade options:
   // unsafeAllowRenames: true
   // unsafeSkipStorageCheck: true
 
-  const factory = await ethers.getContractFactory(CONTRACT_NAME);
-  const response = await upgrades.prepareUpgrade(PROXY_ADDRESS, factory);
+  const libraries: Record<string, string> = {};
+  for (const name of LIBRARY_NAMES) {
+    if (LIBRARY_ADDRESSES[name]) {
+      libraries[name] = LIBRARY_ADDRESSES[name];
+      continue;
+    }
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+
+    console.log(`Library ${name} deployed to:`, libraries[name]);
+  }
+
+  const factory = await ethers.getContractFactory(CONTRACT_NAME, { libraries });
+  const response = await upgrades.prepareUpgrade(PROXY_ADDRESS, factory, {
+    unsafeAllow: LIBRARY_NAMES.length !== 0 ? ["external-library-linking"] : [],
+  });
 
   console.log("Upgrade prepared:", response);
 }
@@ -0,0 +1,20 @@
+import { ethers } from "hardhat";
+
+const CLONE_INIT_CODE_PREFIX = "0x3d602d80600a3d3981f3363d3d373d3d3d363d73";
+const CLONE_INIT_CODE_SUFFIX = "0x5af43d82803e903d91602b57fd5bf3";
+
+export function predictWalletAddress(
+  factoryAddress: string,
+  implementationAddress: string,
+  owners: string[],
+  requiredApprovals: number,
+  salt: string,
+): string {
+  const walletParams = ethers.AbiCoder.defaultAbiCoder().encode(
+    ["address[]", "uint16", "bytes32"],
+    [owners, requiredApprovals, salt],
+  );
+  const walletSalt = ethers.keccak256(walletParams);
+  const initCode = ethers.concat([CLONE_INIT_CODE_PREFIX, implementationAddress, CLONE_INIT_CODE_SUFFIX]);
+  return ethers.getCreate2Address(factoryAddress, walletSalt, ethers.keccak256(initCode));
+}
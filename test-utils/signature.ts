@@ -0,0 +1,95 @@
+import { ethers } from "hardhat";
+import { Contract, TypedDataDomain, TypedDataField } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getAddress } from "./eth";
+
+export const WALLET_DOMAIN_NAME = "MultiSigWallet";
+export const WALLET_DOMAIN_VERSION = "1";
+
+export const TRANSACTION_TYPES: Record<string, TypedDataField[]> = {
+  Transaction: [
+    { name: "txId", type: "uint256" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "gasLimit", type: "uint64" },
+    { name: "cooldown", type: "uint128" },
+    { name: "expiration", type: "uint128" },
+  ],
+};
+
+export const MESSAGE_TYPES: Record<string, TypedDataField[]> = {
+  Message: [
+    { name: "hash", type: "bytes32" },
+  ],
+};
+
+export interface TransactionTypedData {
+  txId: bigint | number;
+  to: string;
+  value: bigint | number;
+  data: string;
+  operation: bigint | number;
+  gasLimit: bigint | number;
+  cooldown: bigint | number;
+  expiration: bigint | number;
+}
+
+export async function getWalletDomain(wallet: Contract): Promise<TypedDataDomain> {
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    name: WALLET_DOMAIN_NAME,
+    version: WALLET_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: getAddress(wallet),
+  };
+}
+
+export async function getTransactionTypedData(wallet: Contract, txId: number): Promise<TransactionTypedData> {
+  const tx = await wallet.getTransaction(txId);
+  return {
+    txId,
+    to: tx.to,
+    value: tx.value,
+    data: tx.data,
+    operation: tx.operation,
+    gasLimit: tx.gasLimit,
+    cooldown: tx.cooldown,
+    expiration: tx.expiration,
+  };
+}
+
+export async function hashTransaction(wallet: Contract, txId: number): Promise<string> {
+  const domain = await getWalletDomain(wallet);
+  const typedData = await getTransactionTypedData(wallet, txId);
+  return ethers.TypedDataEncoder.hash(domain, TRANSACTION_TYPES, typedData);
+}
+
+export async function signTransaction(signer: HardhatEthersSigner, wallet: Contract, txId: number): Promise<string> {
+  const domain = await getWalletDomain(wallet);
+  const typedData = await getTransactionTypedData(wallet, txId);
+  return signer.signTypedData(domain, TRANSACTION_TYPES, typedData);
+}
+
+export async function signWalletMessage(
+  signer: HardhatEthersSigner,
+  wallet: Contract,
+  messageHash: string,
+): Promise<string> {
+  const domain = await getWalletDomain(wallet);
+  return signer.signTypedData(domain, MESSAGE_TYPES, { hash: messageHash });
+}
+
+export async function buildWalletSignature(
+  signers: HardhatEthersSigner[],
+  wallet: Contract,
+  messageHash: string,
+): Promise<string> {
+  const sortedSigners = [...signers].sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1));
+  const signatures: string[] = [];
+  for (const signer of sortedSigners) {
+    signatures.push(await signWalletMessage(signer, wallet, messageHash));
+  }
+  return ethers.concat(signatures);
+}
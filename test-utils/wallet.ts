@@ -0,0 +1,38 @@
+import { ethers } from "hardhat";
+import { ContractFactory, Interface, Result } from "ethers";
+
+export const WALLET_LIBRARY_NAMES: string[] = [
+  "MultiSigWalletExecution",
+  "MultiSigWalletModules",
+  "MultiSigWalletOwners",
+  "MultiSigWalletPolicies",
+  "MultiSigWalletSignatures",
+  "MultiSigWalletTransactions",
+];
+
+// The wallet contracts are linked with external libraries, which must be explicitly allowed for proxies
+export const WALLET_PROXY_OPTIONS = { unsafeAllow: ["external-library-linking" as const] };
+
+export async function deployWalletLibraries(): Promise<Record<string, string>> {
+  const libraries: Record<string, string> = {};
+  for (const name of WALLET_LIBRARY_NAMES) {
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+  return libraries;
+}
+
+export async function getWalletContractFactory(name: string): Promise<ContractFactory> {
+  const libraries = await deployWalletLibraries();
+  return ethers.getContractFactory(name, { libraries });
+}
+
+// Decodes the data returned by a wallet transaction call, e.g. by `execute`, using the ABI of the target contract
+export function decodeExecutionResult(targetInterface: Interface, txData: string, result: string): Result {
+  const fragment = targetInterface.getFunction(txData.slice(0, 10));
+  if (!fragment) {
+    throw new Error(`The target contract ABI has no function for the transaction data: ${txData}`);
+  }
+  return targetInterface.decodeFunctionResult(fragment, result);
+}
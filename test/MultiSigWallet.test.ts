@@ -1,15 +1,58 @@
 import { ethers, network, upgrades } from "hardhat";
 import { expect } from "chai";
-import { Contract, ContractFactory } from "ethers";
+import { Contract, ContractFactory, TransactionReceipt, TransactionResponse } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { connect, getAddress, getTxTimestamp, increaseBlockTimestamp, proveTx } from "../test-utils/eth";
 import { setUpFixture } from "../test-utils/common";
+import {
+  buildWalletSignature,
+  hashTransaction,
+  signTransaction,
+  signWalletMessage,
+} from "../test-utils/signature";
+import { decodeExecutionResult, getWalletContractFactory, WALLET_PROXY_OPTIONS } from "../test-utils/wallet";
+
+enum TxStatus {
+  Pending = 0,
+  Cooldown = 1,
+  Executable = 2,
+  Expired = 3,
+  Executed = 4,
+  Cancelled = 5,
+  Failed = 6,
+}
+
+enum Operation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
+interface Policy {
+  enabled: boolean;
+  requiredApprovals: number;
+  cooldownTime: number;
+}
+
+interface SubmitOptions {
+  operation: Operation;
+  gasLimit: number;
+  cooldownTime: number;
+  expirationTime: number;
+}
+
+interface Call {
+  to: string;
+  value: number;
+  data: string;
+}
 
 interface Tx {
   to: string;
   value: number;
   data: string;
   executed?: boolean;
+  cancelled?: boolean;
+  bundled?: boolean;
 
   // Indexing signature to ensure that fields are iterated over in a key-value style
   [key: string]: number | string | boolean | undefined;
@@ -27,6 +70,25 @@ function checkTxEquality(actualOnChainTx: TestTx, expectedTx: TestTx) {
   expect(actualOnChainTx.value).to.equal(expectedTx.value, `tx[${expectedTx.id}].value is incorrect`);
   expect(actualOnChainTx.data).to.equal(expectedTx.data, `tx[${expectedTx.id}].data is incorrect`);
   expect(actualOnChainTx.executed).to.equal(!!expectedTx.executed, `tx[${expectedTx.id}].executed is incorrect`);
+  expect(actualOnChainTx.cancelled).to.equal(!!expectedTx.cancelled, `tx[${expectedTx.id}].cancelled is incorrect`);
+  expect(actualOnChainTx.bundled).to.equal(!!expectedTx.bundled, `tx[${expectedTx.id}].bundled is incorrect`);
+}
+
+function getSubmitOptions(options: Partial<SubmitOptions>): SubmitOptions {
+  return {
+    operation: Operation.Call,
+    gasLimit: 0,
+    cooldownTime: 0,
+    expirationTime: 0,
+    ...options,
+  };
+}
+
+function encodeCalls(calls: Call[]): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    ["tuple(address to, uint256 value, bytes data)[]"],
+    [calls.map(call => [call.to, call.value, call.data])],
+  );
 }
 
 function checkTxArrayEquality(actualOnChainTxs: TestTx[], expectedTxs: TestTx[]) {
@@ -52,32 +114,99 @@ describe("MultiSigWallet contract", () => {
   const TX_DATA_STUB1 = ethers.hexlify(ethers.toUtf8Bytes("Some data"));
   const TX_DATA_STUB2 = ethers.hexlify(ethers.toUtf8Bytes("Some data 2"));
   const DEFAULT_ERROR_DATA = "0x";
-
+  const MESSAGE_HASH_STUB = ethers.id("Some message");
+  const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+  const ERC1271_INVALID_VALUE = "0xffffffff";
+  const SUBMIT_WITH_OPTIONS_SIGNATURE = "submit(address,uint256,bytes,(uint8,uint64,uint120,uint120))";
+  const SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE =
+    "submitAndApprove(address,uint256,bytes,(uint8,uint64,uint120,uint120))";
+
+  const EVENT_NAME_ADD_OWNER = "AddOwner";
   const EVENT_NAME_APPROVE = "Approve";
+  const EVENT_NAME_CHECK_AFTER_EXECUTION = "CheckAfterExecution";
+  const EVENT_NAME_CHECK_TRANSACTION = "CheckTransaction";
+  const EVENT_NAME_CANCEL = "Cancel";
+  const EVENT_NAME_CHANGE_THRESHOLD = "ChangeThreshold";
+  const EVENT_NAME_CONFIGURE_DESTINATION_POLICY = "ConfigureDestinationPolicy";
   const EVENT_NAME_CONFIGURE_OWNERS = "ConfigureOwners";
+  const EVENT_NAME_CONFIGURE_OWNER_WEIGHTS = "ConfigureOwnerWeights";
+  const EVENT_NAME_CONFIGURE_SELECTOR_POLICY = "ConfigureSelectorPolicy";
   const EVENT_NAME_CONFIGURE_COOLDOWN_TIME = "ConfigureCooldownTime";
+  const EVENT_NAME_CONFIGURE_DAILY_LIMIT = "ConfigureDailyLimit";
+  const EVENT_NAME_CONFIGURE_DELEGATE_CALL_TARGET = "ConfigureDelegateCallTarget";
+  const EVENT_NAME_CONFIGURE_EXECUTOR = "ConfigureExecutor";
   const EVENT_NAME_CONFIGURE_EXPIRATION_TIME = "ConfigureExpirationTime";
+  const EVENT_NAME_CONFIGURE_GAS_REFUND = "ConfigureGasRefund";
+  const EVENT_NAME_CONFIGURE_GUARD = "ConfigureGuard";
+  const EVENT_NAME_CONFIGURE_MAX_TRANSACTION_TIMES = "ConfigureMaxTransactionTimes";
+  const EVENT_NAME_CONFIGURE_ORDERED_EXECUTION = "ConfigureOrderedExecution";
+  const EVENT_NAME_CONFIGURE_PROPOSER = "ConfigureProposer";
+  const EVENT_NAME_CONFIGURE_PUBLIC_EXECUTION = "ConfigurePublicExecution";
+  const EVENT_NAME_CONFIGURE_REGISTRY = "ConfigureRegistry";
+  const EVENT_NAME_CONFIGURE_TRY_EXECUTION = "ConfigureTryExecution";
   const EVENT_NAME_DEPOSIT = "Deposit";
+  const EVENT_NAME_DISABLE_MODULE = "DisableModule";
+  const EVENT_NAME_ENABLE_MODULE = "EnableModule";
+  const EVENT_NAME_DEPOSIT_ERC721 = "DepositERC721";
+  const EVENT_NAME_DEPOSIT_ERC1155 = "DepositERC1155";
+  const EVENT_NAME_DEPOSIT_ERC1155_BATCH = "DepositERC1155Batch";
   const EVENT_NAME_EXECUTE = "Execute";
+  const EVENT_NAME_EXECUTE_RESULT = "ExecuteResult";
+  const EVENT_NAME_EXECUTION_FAILURE = "ExecutionFailure";
+  const EVENT_NAME_EXECUTION_FROM_MODULE_FAILURE = "ExecutionFromModuleFailure";
+  const EVENT_NAME_EXECUTION_FROM_MODULE_SUCCESS = "ExecutionFromModuleSuccess";
+  const EVENT_NAME_PAUSE = "Pause";
+  const EVENT_NAME_REFUND = "Refund";
+  const EVENT_NAME_REMOVE_OWNER = "RemoveOwner";
+  const EVENT_NAME_REPLACE_OWNER = "ReplaceOwner";
   const EVENT_NAME_REVOKE = "Revoke";
+  const EVENT_NAME_SCRIPT_EXECUTED = "ScriptExecuted";
+  const EVENT_NAME_SIGN_MESSAGE = "SignMessage";
   const EVENT_NAME_SUBMIT = "Submit";
   const EVENT_NAME_TEST = "TestEvent";
+  const EVENT_NAME_UNPAUSE = "Unpause";
 
+  const ERROR_NAME_APPROVAL_SIGNATURE_ALREADY_USED = "ApprovalSignatureAlreadyUsed";
+  const ERROR_NAME_DELEGATE_CALL_TARGET_NOT_ALLOWED = "DelegateCallTargetNotAllowed";
+  const ERROR_NAME_DELEGATE_CALL_VALUE_NOT_ZERO = "DelegateCallValueNotZero";
   const ERROR_NAME_DUPLICATE_OWNER_ADDRESS = "DuplicateOwnerAddress";
   const ERROR_NAME_COOLDOWN_NOT_ENDED = "CooldownNotEnded";
+  const ERROR_NAME_EMPTY_CALLS_ARRAY = "EmptyCallsArray";
   const ERROR_NAME_EMPTY_OWNERS_ARRAY = "EmptyOwnersArray";
+  const ERROR_NAME_GUARD_ERROR = "GuardError";
+  const ERROR_NAME_INTERNAL_CALL_FAILED = "InternalCallFailed";
   const ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED = "InternalTransactionFailed";
+  const ERROR_NAME_INVALID_COOLDOWN_TIME = "InvalidCooldownTime";
+  const ERROR_NAME_INVALID_EXPIRATION_TIME = "InvalidExpirationTime";
+  const ERROR_NAME_INVALID_OWNER_WEIGHTS = "InvalidOwnerWeights";
   const ERROR_NAME_INVALID_REQUIRED_APPROVALS = "InvalidRequiredApprovals";
+  const ERROR_NAME_INVALID_SIGNATURE = "InvalidSignature";
+  const ERROR_NAME_MODULE_ALREADY_ENABLED = "ModuleAlreadyEnabled";
+  const ERROR_NAME_MODULE_NOT_ENABLED = "ModuleNotEnabled";
   const ERROR_NAME_NOT_ENOUGH_APPROVALS = "NotEnoughApprovals";
+  const ERROR_NAME_NOT_ENOUGH_GAS = "NotEnoughGas";
+  const ERROR_NAME_OWNER_NOT_EXIST = "OwnerNotExist";
+  const ERROR_NAME_OWNERS_CHANGED_BY_DELEGATE_CALL = "OwnersChangedByDelegateCall";
   const ERROR_NAME_TRANSACTION_EXPIRED = "TransactionExpired";
   const ERROR_NAME_TRANSACTION_ALREADY_APPROVED = "TransactionAlreadyApproved";
   const ERROR_NAME_TRANSACTION_ALREADY_EXECUTED = "TransactionAlreadyExecuted";
+  const ERROR_NAME_TRANSACTION_CANCELLED = "TransactionCancelled";
+  const ERROR_NAME_TRANSACTION_FAILED = "TransactionFailed";
   const ERROR_NAME_TRANSACTION_NOT_APPROVED = "TransactionNotApproved";
   const ERROR_NAME_TRANSACTION_NOT_EXIST = "TransactionNotExist";
+  const ERROR_NAME_TRANSACTION_OUT_OF_ORDER = "TransactionOutOfOrder";
   const ERROR_NAME_UNAUTHORIZED_CALLER = "UnauthorizedCaller";
+  const ERROR_NAME_UNAUTHORIZED_SIGNER = "UnauthorizedSigner";
+  const ERROR_NAME_WALLET_NOT_PAUSED = "WalletNotPaused";
+  const ERROR_NAME_WALLET_PAUSED = "WalletPaused";
+  const ERROR_NAME_ZERO_MODULE_ADDRESS = "ZeroModuleAddress";
   const ERROR_NAME_ZERO_OWNER_ADDRESS = "ZeroOwnerAddress";
 
   let tokenFactory: ContractFactory;
+  let scriptFactory: ContractFactory;
+  let erc721TokenFactory: ContractFactory;
+  let erc1155TokenFactory: ContractFactory;
+  let guardFactory: ContractFactory;
   let walletUpgradeableFactory: ContractFactory;
   let walletFactory: ContractFactory;
 
@@ -91,9 +220,13 @@ describe("MultiSigWallet contract", () => {
   before(async () => {
     [, owner1, owner2, owner3, user] = await ethers.getSigners();
     ownerAddresses = [owner1.address, owner2.address, owner3.address];
-    walletUpgradeableFactory = await ethers.getContractFactory("MultiSigWalletUpgradeable");
-    walletFactory = await ethers.getContractFactory("MultiSigWallet");
+    walletUpgradeableFactory = await getWalletContractFactory("MultiSigWalletUpgradeable");
+    walletFactory = await getWalletContractFactory("MultiSigWallet");
     tokenFactory = await ethers.getContractFactory("TestContractMock");
+    scriptFactory = await ethers.getContractFactory("DelegateCallScriptMock");
+    erc721TokenFactory = await ethers.getContractFactory("ERC721TokenMock");
+    erc1155TokenFactory = await ethers.getContractFactory("ERC1155TokenMock");
+    guardFactory = await ethers.getContractFactory("MultiSigWalletGuardMock");
   });
 
   async function checkOwnership(
@@ -115,6 +248,45 @@ describe("MultiSigWallet contract", () => {
     );
   }
 
+  function encodeConfigureWeightedOwnersFunctionData(
+    ownerAddresses: string[],
+    weights: number[],
+    requiredApprovals: number,
+  ): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureWeightedOwners",
+      [ownerAddresses, weights, requiredApprovals],
+    );
+  }
+
+  function encodeAddOwnerFunctionData(owner: string, requiredApprovals: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "addOwner",
+      [owner, requiredApprovals],
+    );
+  }
+
+  function encodeRemoveOwnerFunctionData(owner: string, requiredApprovals: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "removeOwner",
+      [owner, requiredApprovals],
+    );
+  }
+
+  function encodeReplaceOwnerFunctionData(oldOwner: string, newOwner: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "replaceOwner",
+      [oldOwner, newOwner],
+    );
+  }
+
+  function encodeChangeThresholdFunctionData(requiredApprovals: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "changeThreshold",
+      [requiredApprovals],
+    );
+  }
+
   function encodeConfigureCooldownTimeFunctionData(cooldownTime: number): string {
     return walletUpgradeableFactory.interface.encodeFunctionData(
       "configureCooldownTime",
@@ -129,6 +301,136 @@ describe("MultiSigWallet contract", () => {
     );
   }
 
+  function encodeConfigureMaxTransactionTimesFunctionData(maxCooldownTime: number, maxExpirationTime: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureMaxTransactionTimes",
+      [maxCooldownTime, maxExpirationTime],
+    );
+  }
+
+  function encodeConfigureOrderedExecutionFunctionData(enabled: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureOrderedExecution",
+      [enabled],
+    );
+  }
+
+  function encodeConfigureTryExecutionFunctionData(enabled: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureTryExecution",
+      [enabled],
+    );
+  }
+
+  function encodeConfigureGasRefundFunctionData(maxGasPrice: bigint): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureGasRefund",
+      [maxGasPrice],
+    );
+  }
+
+  function encodeCancelFunctionData(txId: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "cancel",
+      [txId],
+    );
+  }
+
+  function encodeCancelBatchFunctionData(txIds: number[]): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "cancelBatch",
+      [txIds],
+    );
+  }
+
+  function encodeConfigureDestinationPolicyFunctionData(to: string, policy: Policy): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureDestinationPolicy",
+      [to, policy],
+    );
+  }
+
+  function encodeConfigureSelectorPolicyFunctionData(to: string, selector: string, policy: Policy): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureSelectorPolicy",
+      [to, selector, policy],
+    );
+  }
+
+  function encodeConfigureDailyLimitFunctionData(dailyLimit: number): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureDailyLimit",
+      [dailyLimit],
+    );
+  }
+
+  function encodeConfigureDelegateCallTargetFunctionData(target: string, allowed: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureDelegateCallTarget",
+      [target, allowed],
+    );
+  }
+
+  function encodeConfigureRegistryFunctionData(newRegistry: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureRegistry",
+      [newRegistry],
+    );
+  }
+
+  function encodeConfigureProposerFunctionData(account: string, enabled: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureProposer",
+      [account, enabled],
+    );
+  }
+
+  function encodeConfigureExecutorFunctionData(account: string, enabled: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureExecutor",
+      [account, enabled],
+    );
+  }
+
+  function encodeConfigurePublicExecutionFunctionData(enabled: boolean): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configurePublicExecution",
+      [enabled],
+    );
+  }
+
+  function encodeConfigureGuardFunctionData(newGuard: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureGuard",
+      [newGuard],
+    );
+  }
+
+  function encodeEnableModuleFunctionData(module: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "enableModule",
+      [module],
+    );
+  }
+
+  function encodeDisableModuleFunctionData(module: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "disableModule",
+      [module],
+    );
+  }
+
+  function encodeUnpauseFunctionData(): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData("unpause");
+  }
+
+  function encodeSignMessageFunctionData(messageHash: string): string {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "signMessage",
+      [messageHash],
+    );
+  }
+
   async function deployTestContractMock(): Promise<{
     testContractMock: Contract;
   }> {
@@ -140,9 +442,30 @@ describe("MultiSigWallet contract", () => {
     };
   }
 
+  async function deployWalletWithTokens(): Promise<{
+    wallet: Contract;
+    erc721Token: Contract;
+    erc1155Token: Contract;
+  }> {
+    const { wallet } = await deployWallet();
+    const erc721Token = await erc721TokenFactory.deploy() as Contract;
+    await erc721Token.waitForDeployment();
+    const erc1155Token = await erc1155TokenFactory.deploy() as Contract;
+    await erc1155Token.waitForDeployment();
+
+    return {
+      wallet,
+      erc721Token,
+      erc1155Token,
+    };
+  }
+
   async function deployWalletUpgradeable(): Promise<{ wallet: Contract }> {
-    const wallet =
-      await upgrades.deployProxy(walletUpgradeableFactory, [ownerAddresses, REQUIRED_APPROVALS]) as Contract;
+    const wallet = await upgrades.deployProxy(
+      walletUpgradeableFactory,
+      [ownerAddresses, REQUIRED_APPROVALS],
+      WALLET_PROXY_OPTIONS,
+    ) as Contract;
     await wallet.waitForDeployment();
 
     return {
@@ -306,155 +629,1673 @@ describe("MultiSigWallet contract", () => {
       });
     });
 
-    describe("Function 'configureCooldownTime()'", () => {
-      it("Correctly changes the transaction cooldown time", async () => {
+    describe("Function 'addOwner()'", () => {
+      it("Adds a new owner and changes the number of required approvals", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        const txData = encodeConfigureCooldownTimeFunctionData(TWO_HOURS);
+        const txData = encodeAddOwnerFunctionData(user.address, REQUIRED_APPROVALS + 1);
 
         await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
-        await expect(connect(wallet, owner2).approveAndExecute(0))
-          .to.emit(wallet, EVENT_NAME_CONFIGURE_COOLDOWN_TIME)
-          .withArgs(TWO_HOURS);
+        const tx = connect(wallet, owner2).approveAndExecute(0);
+        await expect(tx).to.emit(wallet, EVENT_NAME_ADD_OWNER).withArgs(user.address);
+        await expect(tx).to.emit(wallet, EVENT_NAME_CHANGE_THRESHOLD).withArgs(REQUIRED_APPROVALS + 1);
 
-        expect(await wallet.cooldownTime()).to.eq(TWO_HOURS);
+        expect(await wallet.owners()).to.deep.eq([...ownerAddresses, user.address]);
+        expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS + 1);
+        expect(await wallet.isOwner(user.address)).to.eq(true);
+      });
+
+      it("Does not emit the threshold event if the number of required approvals is unchanged", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeAddOwnerFunctionData(user.address, REQUIRED_APPROVALS);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .not.to.emit(wallet, EVENT_NAME_CHANGE_THRESHOLD);
+        expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
       });
 
       it("Is reverted if the caller is not the multi sig wallet itself", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        await expect(wallet.configureCooldownTime(ONE_MINUTE))
+        await expect(connect(wallet, owner1).addOwner(user.address, REQUIRED_APPROVALS))
           .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
       });
-    });
 
-    describe("Function 'configureExpirationTime()'", () => {
-      it("Correctly changes the transaction expiration time", async () => {
+      it("Is reverted if the new owner is the zero address", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        const txData = encodeConfigureExpirationTimeTimeFunctionData(ONE_YEAR);
+        const txData = encodeAddOwnerFunctionData(ADDRESS_ZERO, REQUIRED_APPROVALS);
 
         await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
         await expect(connect(wallet, owner2).approveAndExecute(0))
-          .to.emit(wallet, EVENT_NAME_CONFIGURE_EXPIRATION_TIME)
-          .withArgs(ONE_YEAR);
-
-        expect(await wallet.expirationTime()).to.eq(ONE_YEAR);
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_ZERO_OWNER_ADDRESS));
       });
 
-      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+      it("Is reverted if the new owner is already an owner", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        await expect(wallet.configureExpirationTime(ONE_MINUTE))
-          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        const txData = encodeAddOwnerFunctionData(owner3.address, REQUIRED_APPROVALS);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_DUPLICATE_OWNER_ADDRESS));
       });
 
-      it("Is reverted if passed expiration time is less than minimal allowed", async () => {
+      it("Is reverted if the number of required approvals exceeds the new number of owners", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        const txData = encodeConfigureExpirationTimeTimeFunctionData(ONE_MINUTE);
+        const txData = encodeAddOwnerFunctionData(user.address, ownerAddresses.length + 2);
 
         await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
         await expect(connect(wallet, owner2).approveAndExecute(0))
-          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED);
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
       });
     });
 
-    describe("Function 'receive()'", () => {
-      describe("Executes as expected and emits the correct event when it is called indirectly with", () => {
-        async function checkExecutionOfReceive(params: { value: number }) {
-          const { wallet } = await setUpFixture(deployWallet);
+    describe("Function 'removeOwner()'", () => {
+      it("Removes an owner by moving the last owner into its position", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeRemoveOwnerFunctionData(owner1.address, 1);
 
-          const txResponse = user.sendTransaction({
-            to: getAddress(wallet),
-            value: params.value,
-          });
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        const tx = connect(wallet, owner2).approveAndExecute(0);
+        await expect(tx).to.emit(wallet, EVENT_NAME_REMOVE_OWNER).withArgs(owner1.address);
+        await expect(tx).to.emit(wallet, EVENT_NAME_CHANGE_THRESHOLD).withArgs(1);
 
-          await expect(txResponse)
-            .to.emit(wallet, EVENT_NAME_DEPOSIT)
-            .withArgs(user.address, params.value);
-          await expect(txResponse).to.changeEtherBalances(
-            [wallet, user],
-            [+params.value, -params.value],
-          );
-        }
+        expect(await wallet.owners()).to.deep.eq([owner3.address, owner2.address]);
+        expect(await wallet.requiredApprovals()).to.eq(1);
+        expect(await wallet.isOwner(owner1.address)).to.eq(false);
+      });
 
-        it("A nonzero value", async () => {
-          await checkExecutionOfReceive({ value: TX_VALUE_STUB });
-        });
+      it("Removes the last owner in the list keeping the order of others", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeRemoveOwnerFunctionData(owner3.address, REQUIRED_APPROVALS);
 
-        it("The zero value", async () => {
-          await checkExecutionOfReceive({ value: 0 });
-        });
-      });
-    });
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_REMOVE_OWNER)
+          .withArgs(owner3.address);
 
-    describe("Function 'submit()'", () => {
-      const tx: TestTx = {
-        id: 0,
-        to: ADDRESS_STUB1,
-        value: TX_VALUE_STUB,
-        data: TX_DATA_STUB1,
-      };
+        expect(await wallet.owners()).to.deep.eq([owner1.address, owner2.address]);
+        expect(await wallet.isOwner(owner3.address)).to.eq(false);
+      });
 
-      it("Executes as expected and emits the correct event", async () => {
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
         const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).removeOwner(owner3.address, REQUIRED_APPROVALS))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
 
-        await expect(connect(wallet, owner1).submit(tx.to, tx.value, tx.data))
-          .to.emit(wallet, EVENT_NAME_SUBMIT)
-          .withArgs(owner1.address, tx.id);
+      it("Is reverted if the account is not an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeRemoveOwnerFunctionData(user.address, REQUIRED_APPROVALS);
 
-        const actualTx = await wallet.getTransaction(tx.id);
-        checkTxEquality(actualTx, tx);
-        expect(await wallet.transactionCount()).to.eq(1);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_OWNER_NOT_EXIST));
       });
 
-      it("Is reverted if it is called not by an owner", async () => {
+      it("Is reverted if the number of required approvals exceeds the new number of owners", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        await expect(wallet.submit(tx.to, tx.value, tx.data))
-          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        const txData = encodeRemoveOwnerFunctionData(owner3.address, ownerAddresses.length);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
       });
     });
 
-    describe("Function 'submitAndApprove()'", () => {
-      const tx: TestTx = {
-        id: 0,
-        to: ADDRESS_STUB1,
-        value: TX_VALUE_STUB,
-        data: TX_DATA_STUB1,
-      };
-
-      it("Executes as expected and emits the correct events", async () => {
+    describe("Function 'replaceOwner()'", () => {
+      it("Replaces an owner keeping its position in the list of owners", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        const txResponse = connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data);
+        const txData = encodeReplaceOwnerFunctionData(owner2.address, user.address);
 
-        await expect(txResponse).to.emit(wallet, EVENT_NAME_SUBMIT).withArgs(owner1.address, tx.id);
-        await expect(txResponse).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner1.address, tx.id);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_REPLACE_OWNER)
+          .withArgs(owner2.address, user.address);
 
-        const actualTx = await wallet.getTransaction(tx.id);
-        checkTxEquality(actualTx, tx);
-        expect(await wallet.transactionCount()).to.eq(1);
-        expect(await wallet.getApprovalStatus(tx.id, owner1.address)).to.eq(true);
+        expect(await wallet.owners()).to.deep.eq([owner1.address, user.address, owner3.address]);
+        expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
+        expect(await wallet.isOwner(owner2.address)).to.eq(false);
+        expect(await wallet.isOwner(user.address)).to.eq(true);
       });
 
-      it("Is reverted if it is called not by an owner", async () => {
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        await expect(wallet.submitAndApprove(tx.to, tx.value, tx.data))
-          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, owner1).replaceOwner(owner2.address, user.address))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
       });
-    });
-
-    describe("Function 'approve()'", () => {
-      const tx: TestTx = {
-        id: 0,
-        to: ADDRESS_STUB1,
-        value: 0,
-        data: TX_DATA_STUB1,
-      };
 
-      it("Executes as expected and emits the correct event", async () => {
+      it("Is reverted if the old account is not an owner", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
-        expect(await wallet.getApprovalCount(tx.id)).to.eq(0);
-
-        await expect(connect(wallet, owner1).approve(tx.id))
-          .to.emit(wallet, EVENT_NAME_APPROVE)
-          .withArgs(owner1.address, tx.id);
+        const txData = encodeReplaceOwnerFunctionData(user.address, owner2.address);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_OWNER_NOT_EXIST));
+      });
+
+      it("Is reverted if the new owner is the zero address", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeReplaceOwnerFunctionData(owner2.address, ADDRESS_ZERO);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_ZERO_OWNER_ADDRESS));
+      });
+
+      it("Is reverted if the new owner is already an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeReplaceOwnerFunctionData(owner2.address, owner3.address);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_DUPLICATE_OWNER_ADDRESS));
+      });
+    });
+
+    describe("Function 'changeThreshold()'", () => {
+      it("Changes the number of required approvals", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeChangeThresholdFunctionData(ownerAddresses.length);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CHANGE_THRESHOLD)
+          .withArgs(ownerAddresses.length);
+
+        expect(await wallet.requiredApprovals()).to.eq(ownerAddresses.length);
+        expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).changeThreshold(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the number of required approvals is zero", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeChangeThresholdFunctionData(0);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
+      });
+
+      it("Is reverted if the number of required approvals exceeds the number of owners", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeChangeThresholdFunctionData(ownerAddresses.length + 1);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
+      });
+    });
+
+    describe("Function 'configureWeightedOwners()'", () => {
+      const weights = [3, 1, 1];
+      const requiredWeight = 3;
+
+      it("Configures owners with weights and emits the correct events", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, weights, requiredWeight);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        const txResponse = connect(wallet, owner2).approveAndExecute(0);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_OWNERS)
+          .withArgs(ownerAddresses, requiredWeight);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_OWNER_WEIGHTS)
+          .withArgs(ownerAddresses, weights);
+
+        expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+        expect(await wallet.requiredApprovals()).to.eq(requiredWeight);
+        expect(await wallet.totalWeight()).to.eq(5);
+        expect(await wallet.ownerWeight(owner1.address)).to.eq(weights[0]);
+        expect(await wallet.ownerWeight(owner2.address)).to.eq(weights[1]);
+        expect(await wallet.ownerWeight(user.address)).to.eq(0);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureWeightedOwners(ownerAddresses, weights, requiredWeight))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the array of weights is empty", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, [], requiredWeight);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_OWNER_WEIGHTS));
+      });
+
+      it("Is reverted if the array of weights has a different length than the array of owners", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, [3, 1], requiredWeight);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_OWNER_WEIGHTS));
+      });
+
+      it("Is reverted if one of the weights is zero", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, [3, 0, 1], requiredWeight);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_OWNER_WEIGHTS));
+      });
+
+      it("Is reverted if the number of required approvals exceeds the total weight of owners", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, weights, 6);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
+      });
+    });
+
+    describe("Scenarios with weighted owners", () => {
+      async function deployWeightedWallet(): Promise<{ wallet: Contract }> {
+        const { wallet } = await deployWallet();
+        const txData = encodeConfigureWeightedOwnersFunctionData(ownerAddresses, [3, 1, 1], 3);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        return { wallet };
+      }
+
+      it("A single owner with enough weight executes a transaction", async () => {
+        const { wallet } = await setUpFixture(deployWeightedWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 0, "0x"));
+
+        expect(await wallet.getApprovalCount(1)).to.eq(1);
+        expect(await wallet.getApprovalWeight(1)).to.eq(3);
+        await expect(connect(wallet, owner1).execute(1))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, 1);
+      });
+
+      it("Owners with a small weight cannot execute a transaction without enough total weight", async () => {
+        const { wallet } = await setUpFixture(deployWeightedWallet);
+        await proveTx(connect(wallet, owner2).submitAndApprove(user.address, 0, "0x"));
+        await proveTx(connect(wallet, owner3).approve(1));
+
+        expect(await wallet.getApprovalCount(1)).to.eq(2);
+        expect(await wallet.getApprovalWeight(1)).to.eq(2);
+        await expect(connect(wallet, owner2).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Replacing an owner transfers its weight to the new owner", async () => {
+        const { wallet } = await setUpFixture(deployWeightedWallet);
+        const txData = encodeReplaceOwnerFunctionData(owner1.address, user.address);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner1).execute(1));
+
+        expect(await wallet.ownerWeight(owner1.address)).to.eq(0);
+        expect(await wallet.ownerWeight(user.address)).to.eq(3);
+        expect(await wallet.totalWeight()).to.eq(5);
+      });
+
+      it("Configuring owners without weights resets the weights to the default one", async () => {
+        const { wallet } = await setUpFixture(deployWeightedWallet);
+        const txData = encodeConfigureOwnersFunctionData(ownerAddresses, REQUIRED_APPROVALS);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner1).execute(1));
+
+        expect(await wallet.ownerWeight(owner1.address)).to.eq(1);
+        expect(await wallet.totalWeight()).to.eq(ownerAddresses.length);
+      });
+
+      it("Removing an owner is reverted if the threshold exceeds the remaining total weight", async () => {
+        const { wallet } = await setUpFixture(deployWeightedWallet);
+        const txData = encodeRemoveOwnerFunctionData(owner1.address, 3);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner1).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
+      });
+    });
+
+    describe("Scenarios with approvals of removed owners", () => {
+      it("Approvals of a removed owner are not counted for pending transactions", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 0, "0x"));
+        const removeOwnerData = encodeRemoveOwnerFunctionData(owner1.address, REQUIRED_APPROVALS);
+        await proveTx(connect(wallet, owner2).submitAndApprove(getAddress(wallet), 0, removeOwnerData));
+        await proveTx(connect(wallet, owner3).approveAndExecute(1));
+
+        expect(await wallet.getApprovalCount(0)).to.eq(0);
+        expect(await wallet.getTransactionStatus(0)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await proveTx(connect(wallet, owner2).approve(0));
+        await expect(connect(wallet, owner3).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner3.address, 0);
+      });
+
+      it("Approvals of a replaced owner are not counted for pending transactions", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 0, "0x"));
+        const replaceOwnerData = encodeReplaceOwnerFunctionData(owner1.address, user.address);
+        await proveTx(connect(wallet, owner2).submitAndApprove(getAddress(wallet), 0, replaceOwnerData));
+        await proveTx(connect(wallet, owner3).approveAndExecute(1));
+
+        expect(await wallet.getApprovalCount(0)).to.eq(0);
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Approvals of owners removed by reconfiguring all owners are not counted", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 0, "0x"));
+        await proveTx(connect(wallet, owner2).approve(0));
+        const configureOwnersData = encodeConfigureOwnersFunctionData([owner2.address, owner3.address], 2);
+        await proveTx(connect(wallet, owner3).submitAndApprove(getAddress(wallet), 0, configureOwnersData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+
+        expect(await wallet.getApprovalCount(0)).to.eq(1);
+        await expect(connect(wallet, owner2).execute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+        await proveTx(connect(wallet, owner3).approveAndExecute(0));
+      });
+    });
+
+    describe("Function 'configureCooldownTime()'", () => {
+      it("Correctly changes the transaction cooldown time", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureCooldownTimeFunctionData(TWO_HOURS);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_COOLDOWN_TIME)
+          .withArgs(TWO_HOURS);
+
+        expect(await wallet.cooldownTime()).to.eq(TWO_HOURS);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureCooldownTime(ONE_MINUTE))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Function 'configureExpirationTime()'", () => {
+      it("Correctly changes the transaction expiration time", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureExpirationTimeTimeFunctionData(ONE_YEAR);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_EXPIRATION_TIME)
+          .withArgs(ONE_YEAR);
+
+        expect(await wallet.expirationTime()).to.eq(ONE_YEAR);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureExpirationTime(ONE_MINUTE))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if passed expiration time is less than minimal allowed", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureExpirationTimeTimeFunctionData(ONE_MINUTE);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED);
+      });
+    });
+
+    describe("Function 'configureMaxTransactionTimes()'", () => {
+      it("Correctly changes the maximum transaction times", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureMaxTransactionTimesFunctionData(ONE_DAY, ONE_YEAR);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_MAX_TRANSACTION_TIMES)
+          .withArgs(ONE_DAY, ONE_YEAR);
+
+        expect(await wallet.maxCooldownTime()).to.eq(ONE_DAY);
+        expect(await wallet.maxExpirationTime()).to.eq(ONE_YEAR);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureMaxTransactionTimes(ONE_DAY, ONE_YEAR))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Functions 'configureDestinationPolicy()' and 'configureSelectorPolicy()'", () => {
+      const policy: Policy = {
+        enabled: true,
+        requiredApprovals: 1,
+        cooldownTime: TWO_HOURS,
+      };
+      const selector = "0x12345678";
+
+      it("Correctly configure the policies", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData1 = encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, policy);
+        const txData2 = encodeConfigureSelectorPolicyFunctionData(ADDRESS_STUB1, selector, policy);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData2));
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_DESTINATION_POLICY)
+          .withArgs(ADDRESS_STUB1, policy.enabled, policy.requiredApprovals, policy.cooldownTime);
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_SELECTOR_POLICY)
+          .withArgs(ADDRESS_STUB1, selector, policy.enabled, policy.requiredApprovals, policy.cooldownTime);
+
+        expect(await wallet.getDestinationPolicy(ADDRESS_STUB1)).to.deep.eq(Object.values(policy));
+        expect(await wallet.getSelectorPolicy(ADDRESS_STUB1, selector)).to.deep.eq(Object.values(policy));
+        expect(await wallet.getDestinationPolicy(ADDRESS_STUB2)).to.deep.eq([false, 0, 0]);
+      });
+
+      it("Are reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureDestinationPolicy(ADDRESS_STUB1, policy))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, owner1).configureSelectorPolicy(ADDRESS_STUB1, selector, policy))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Are reverted if the number of required approvals of an enabled policy is invalid", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const invalidPolicies: Policy[] = [
+          { ...policy, requiredApprovals: 0 },
+          { ...policy, requiredApprovals: ownerAddresses.length + 1 },
+        ];
+        let txId = 0;
+        for (const invalidPolicy of invalidPolicies) {
+          const txData1 = encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, invalidPolicy);
+          const txData2 = encodeConfigureSelectorPolicyFunctionData(ADDRESS_STUB1, selector, invalidPolicy);
+          for (const txData of [txData1, txData2]) {
+            await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+            await expect(connect(wallet, owner2).approveAndExecute(txId++))
+              .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+              .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_INVALID_REQUIRED_APPROVALS));
+          }
+        }
+      });
+    });
+
+    describe("Scenarios with execution policies", () => {
+      const selector = TX_DATA_STUB1.slice(0, 10);
+
+      async function configurePolicy(wallet: Contract, txData: string) {
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId));
+      }
+
+      it("A destination policy lowers the required approvals and changes the cooldown", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const policy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: TWO_HOURS };
+        await configurePolicy(wallet, encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, policy));
+        const txId = 1;
+
+        const timestamp = await getTxTimestamp(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, "0x"));
+        const txStruct = await wallet.getTransaction(txId);
+        expect(txStruct.cooldown).to.eq(timestamp + TWO_HOURS);
+        expect(txStruct.expiration).to.eq(timestamp + TWO_HOURS + DEFAULT_EXPIRATION_TIME);
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(1);
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_COOLDOWN_NOT_ENDED);
+        await increaseBlockTimestamp(TWO_HOURS);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, txId);
+      });
+
+      it("A selector policy raises the required approvals and overrides the destination policy", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const destinationPolicy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: 0 };
+        const selectorPolicy: Policy = { enabled: true, requiredApprovals: 3, cooldownTime: 0 };
+        await configurePolicy(wallet, encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, destinationPolicy));
+        await configurePolicy(
+          wallet,
+          encodeConfigureSelectorPolicyFunctionData(ADDRESS_STUB1, selector, selectorPolicy),
+        );
+        const txId = 2;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB2.slice(0, 8)));
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(3);
+        expect(await wallet.getRequiredApprovals(txId + 1)).to.eq(1);
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+        await proveTx(connect(wallet, owner2).approve(txId));
+        await expect(connect(wallet, owner3).approveAndExecute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner3.address, txId);
+        await expect(connect(wallet, owner1).execute(txId + 1))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, txId + 1);
+      });
+
+      it("The required approvals of a policy are capped with the current number of owners", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const walletAddress = getAddress(wallet);
+        const policy: Policy = { enabled: true, requiredApprovals: 3, cooldownTime: 0 };
+        await configurePolicy(wallet, encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, policy));
+        await configurePolicy(wallet, encodeConfigureOwnersFunctionData([owner1.address, owner2.address], 2));
+        const txId = 2;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(2);
+        expect(await wallet.getDestinationPolicy(ADDRESS_STUB1)).to.deep.eq(Object.values(policy));
+        expect(await wallet.getDestinationPolicy(walletAddress)).to.deep.eq([false, 0, 0]);
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner2.address, txId);
+      });
+
+      it("A disabled policy is not applied", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const policy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: 0 };
+        await configurePolicy(wallet, encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, policy));
+        await configurePolicy(
+          wallet,
+          encodeConfigureDestinationPolicyFunctionData(ADDRESS_STUB1, { ...policy, enabled: false }),
+        );
+        const txId = 2;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(REQUIRED_APPROVALS);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Function 'getRequiredApprovals()' is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.getRequiredApprovals(0))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_NOT_EXIST);
+      });
+    });
+
+    describe("Function 'configureDailyLimit()'", () => {
+      it("Correctly changes the daily limit", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeConfigureDailyLimitFunctionData(TX_VALUE_STUB);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_DAILY_LIMIT)
+          .withArgs(TX_VALUE_STUB);
+
+        expect(await wallet.dailyLimit()).to.eq(TX_VALUE_STUB);
+        expect(await wallet.dailyLimitSpent()).to.eq(0);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureDailyLimit(TX_VALUE_STUB))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with the daily limit", () => {
+      const dailyLimit = TX_VALUE_STUB * 2;
+
+      async function deployWalletWithDailyLimit(): Promise<{ wallet: Contract }> {
+        const { wallet } = await deployWallet();
+        const walletAddress = getAddress(wallet);
+        await proveTx(user.sendTransaction({ to: walletAddress, value: dailyLimit * 10 }));
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          walletAddress,
+          0,
+          encodeConfigureDailyLimitFunctionData(dailyLimit),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        return { wallet };
+      }
+
+      it("Transfers within the limit are executed with a single approval", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB, "0x"));
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Executable);
+
+        const tx = connect(wallet, owner1).execute(txId);
+        await expect(tx).to.changeEtherBalances(
+          [wallet, user],
+          [-TX_VALUE_STUB, TX_VALUE_STUB],
+        );
+        const timestamp = await getTxTimestamp(tx);
+        expect(await wallet.dailyLimitSpent()).to.eq(TX_VALUE_STUB);
+        expect(await wallet.dailyLimitResetTime()).to.eq(timestamp + ONE_DAY);
+      });
+
+      it("Transfers above the remaining allowance require the full quorum and do not spend the limit", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB, "0x"));
+        await proveTx(connect(wallet, owner1).execute(txId));
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB + 1, "0x"));
+        expect(await wallet.getTransactionStatus(txId + 1)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner1).execute(txId + 1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId + 1));
+        expect(await wallet.dailyLimitSpent()).to.eq(TX_VALUE_STUB);
+      });
+
+      it("Transactions with data or without value are not covered by the limit", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 0, "0x"));
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+        await expect(connect(wallet, owner1).execute(txId + 1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Transfers within the limit still require at least one approval", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submit(user.address, TX_VALUE_STUB, "0x"));
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Transfers to a receiver with a stricter destination policy are not covered by the limit", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const policy: Policy = { enabled: true, requiredApprovals: 3, cooldownTime: 0 };
+        const txData = encodeConfigureDestinationPolicyFunctionData(user.address, policy);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+        const txId = 2;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB, "0x"));
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+        await proveTx(connect(wallet, owner2).approve(txId));
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await proveTx(connect(wallet, owner3).approveAndExecute(txId));
+        expect(await wallet.dailyLimitSpent()).to.eq(0);
+      });
+
+      it("The spent amount is reset when the daily period ends", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, dailyLimit, "0x"));
+        await proveTx(connect(wallet, owner1).execute(txId));
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, TX_VALUE_STUB, "0x"));
+        await expect(connect(wallet, owner1).execute(txId + 1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await increaseBlockTimestamp(ONE_DAY);
+        expect(await wallet.dailyLimitSpent()).to.eq(0);
+        const timestamp = await getTxTimestamp(connect(wallet, owner1).execute(txId + 1));
+        expect(await wallet.dailyLimitSpent()).to.eq(TX_VALUE_STUB);
+        expect(await wallet.dailyLimitResetTime()).to.eq(timestamp + ONE_DAY);
+      });
+
+      it("Lowering the limit below the spent amount leaves no allowance", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithDailyLimit);
+        const walletAddress = getAddress(wallet);
+        const txId = 1;
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, dailyLimit, "0x"));
+        await proveTx(connect(wallet, owner1).execute(txId));
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          walletAddress,
+          0,
+          encodeConfigureDailyLimitFunctionData(TX_VALUE_STUB),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId + 1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(user.address, 1, "0x"));
+        await expect(connect(wallet, owner1).execute(txId + 2))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+    });
+
+    describe("Function 'configureDelegateCallTarget()'", () => {
+      it("Correctly changes the allowance status of a target", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData1 = encodeConfigureDelegateCallTargetFunctionData(ADDRESS_STUB1, true);
+        const txData2 = encodeConfigureDelegateCallTargetFunctionData(ADDRESS_STUB1, false);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData2));
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_DELEGATE_CALL_TARGET)
+          .withArgs(ADDRESS_STUB1, true);
+        expect(await wallet.isDelegateCallTargetAllowed(ADDRESS_STUB1)).to.eq(true);
+        expect(await wallet.isDelegateCallTargetAllowed(ADDRESS_STUB2)).to.eq(false);
+
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_DELEGATE_CALL_TARGET)
+          .withArgs(ADDRESS_STUB1, false);
+        expect(await wallet.isDelegateCallTargetAllowed(ADDRESS_STUB1)).to.eq(false);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureDelegateCallTarget(ADDRESS_STUB1, true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with delegate call transactions", () => {
+      const amount = 234;
+
+      async function deployWalletWithScript(): Promise<{ wallet: Contract; script: Contract }> {
+        const { wallet } = await deployWallet();
+        const script = await scriptFactory.deploy() as Contract;
+        await script.waitForDeployment();
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          getAddress(wallet),
+          0,
+          encodeConfigureDelegateCallTargetFunctionData(getAddress(script), true),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        return { wallet, script };
+      }
+
+      async function submitScript(wallet: Contract, script: Contract, txData: string): Promise<number> {
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1)[SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE](
+          getAddress(script),
+          0,
+          txData,
+          getSubmitOptions({ operation: Operation.DelegateCall }),
+        ));
+        return txId;
+      }
+
+      it("A script is executed in the context of the wallet", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const walletAddress = getAddress(wallet);
+        const txId = await submitScript(wallet, script, script.interface.encodeFunctionData("run", [amount]));
+        expect((await wallet.getTransaction(txId)).operation).to.eq(Operation.DelegateCall);
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.emit(script.attach(walletAddress), EVENT_NAME_SCRIPT_EXECUTED)
+          .withArgs(owner2.address, walletAddress, amount);
+      });
+
+      it("A script can be submitted with a gas limit and the requested times", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const walletAddress = getAddress(wallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          walletAddress,
+          0,
+          encodeConfigureMaxTransactionTimesFunctionData(ONE_DAY, ONE_YEAR),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+        const options = getSubmitOptions({
+          operation: Operation.DelegateCall,
+          gasLimit: 100_000,
+          cooldownTime: ONE_DAY,
+          expirationTime: ONE_YEAR,
+        });
+        const txData = script.interface.encodeFunctionData("run", [amount]);
+
+        const txResponse = connect(wallet, owner1)[SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE](
+          getAddress(script),
+          0,
+          txData,
+          options,
+        );
+        const timestamp: number = await getTxTimestamp(txResponse);
+        const txStruct = await wallet.getTransaction(2);
+        expect(txStruct.operation).to.eq(Operation.DelegateCall);
+        expect(txStruct.gasLimit).to.eq(options.gasLimit);
+        expect(txStruct.cooldown).to.eq(timestamp + ONE_DAY);
+        expect(txStruct.expiration).to.eq(timestamp + ONE_DAY + ONE_YEAR);
+
+        await increaseBlockTimestamp(ONE_DAY);
+        await expect(connect(wallet, owner2).approveAndExecute(2))
+          .to.emit(script.attach(walletAddress), EVENT_NAME_SCRIPT_EXECUTED)
+          .withArgs(owner2.address, walletAddress, amount);
+      });
+
+      it("A script can change the wallet storage except the owners", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const walletAddress = getAddress(wallet);
+        const slot = ethers.id("Some slot");
+        const value = ethers.id("Some value");
+        const txData = script.interface.encodeFunctionData("writeSlot", [slot, value]);
+        const txId = await submitScript(wallet, script, txData);
+
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId));
+        expect(await ethers.provider.getStorage(walletAddress, slot)).to.eq(value);
+      });
+
+      it("A script cannot corrupt the owners or the number of required approvals", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const ownersSlot = 0;
+        const firstOwnerSlot = ethers.keccak256(ethers.toBeHex(ownersSlot, 32));
+        const requiredApprovalsSlot = 5;
+        const writes: [string | number, string][] = [
+          [ownersSlot, ethers.toBeHex(1, 32)],
+          [firstOwnerSlot, ethers.zeroPadValue(user.address, 32)],
+          [requiredApprovalsSlot, ethers.toBeHex(1, 32)],
+        ];
+
+        for (const [slot, value] of writes) {
+          const txData = script.interface.encodeFunctionData("writeSlot", [slot, value]);
+          const txId = await submitScript(wallet, script, txData);
+          await expect(connect(wallet, owner2).approveAndExecute(txId))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_OWNERS_CHANGED_BY_DELEGATE_CALL);
+        }
+        expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+        expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
+      });
+
+      it("A failed script is reverted with its error data", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const txId = await submitScript(wallet, script, script.interface.encodeFunctionData("fail"));
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(script.interface.encodeErrorResult("ScriptError", ["Script failed"]));
+      });
+
+      it("A script is not executed if its target is disallowed after the submission", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const txId = await submitScript(wallet, script, script.interface.encodeFunctionData("run", [amount]));
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          getAddress(wallet),
+          0,
+          encodeConfigureDelegateCallTargetFunctionData(getAddress(script), false),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId + 1));
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_DELEGATE_CALL_TARGET_NOT_ALLOWED);
+      });
+
+      it("Submission is reverted if the target is not allowed or the value is not zero", async () => {
+        const { wallet, script } = await setUpFixture(deployWalletWithScript);
+        const txData = script.interface.encodeFunctionData("run", [amount]);
+
+        await expect(connect(wallet, owner1)[SUBMIT_WITH_OPTIONS_SIGNATURE](
+          ADDRESS_STUB1,
+          0,
+          txData,
+          getSubmitOptions({ operation: Operation.DelegateCall }),
+        )).to.be.revertedWithCustomError(wallet, ERROR_NAME_DELEGATE_CALL_TARGET_NOT_ALLOWED);
+        await expect(connect(wallet, owner1)[SUBMIT_WITH_OPTIONS_SIGNATURE](
+          getAddress(script),
+          TX_VALUE_STUB,
+          txData,
+          getSubmitOptions({ operation: Operation.DelegateCall }),
+        )).to.be.revertedWithCustomError(wallet, ERROR_NAME_DELEGATE_CALL_VALUE_NOT_ZERO);
+        await expect(connect(wallet, owner1)[SUBMIT_WITH_OPTIONS_SIGNATURE](
+          ADDRESS_STUB1,
+          TX_VALUE_STUB,
+          txData,
+          getSubmitOptions({ operation: Operation.Call }),
+        )).to.emit(wallet, EVENT_NAME_SUBMIT);
+      });
+    });
+
+    describe("Function 'configureRegistry()'", () => {
+      it("Correctly changes the registry", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.registry()).to.eq(ADDRESS_ZERO);
+
+        const txData = encodeConfigureRegistryFunctionData(ADDRESS_STUB1);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_REGISTRY)
+          .withArgs(ADDRESS_STUB1);
+        expect(await wallet.registry()).to.eq(ADDRESS_STUB1);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureRegistry(ADDRESS_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Functions 'configureProposer()', 'configureExecutor()' and 'configurePublicExecution()'", () => {
+      it("Correctly grant and revoke the roles", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.isProposer(user.address)).to.eq(false);
+        expect(await wallet.isExecutor(user.address)).to.eq(false);
+        expect(await wallet.isProposer(owner1.address)).to.eq(true);
+        expect(await wallet.isExecutor(owner1.address)).to.eq(true);
+
+        const calls = [
+          { to: getAddress(wallet), value: 0, data: encodeConfigureProposerFunctionData(user.address, true) },
+          { to: getAddress(wallet), value: 0, data: encodeConfigureExecutorFunctionData(user.address, true) },
+        ];
+        await proveTx(connect(wallet, owner1).submitMulti(calls));
+        await proveTx(connect(wallet, owner1).approve(0));
+        const txResponse = connect(wallet, owner2).approveAndExecute(0);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_CONFIGURE_PROPOSER).withArgs(user.address, true);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_CONFIGURE_EXECUTOR).withArgs(user.address, true);
+        expect(await wallet.isProposer(user.address)).to.eq(true);
+        expect(await wallet.isExecutor(user.address)).to.eq(true);
+
+        const txData = encodeConfigureProposerFunctionData(user.address, false);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_PROPOSER)
+          .withArgs(user.address, false);
+        expect(await wallet.isProposer(user.address)).to.eq(false);
+        expect(await wallet.isExecutor(user.address)).to.eq(true);
+      });
+
+      it("Correctly enable the public execution", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.publicExecution()).to.eq(false);
+
+        const txData = encodeConfigurePublicExecutionFunctionData(true);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_PUBLIC_EXECUTION)
+          .withArgs(true);
+        expect(await wallet.publicExecution()).to.eq(true);
+        expect(await wallet.isExecutor(user.address)).to.eq(true);
+        expect(await wallet.isProposer(user.address)).to.eq(false);
+      });
+
+      it("Are reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureProposer(user.address, true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, owner1).configureExecutor(user.address, true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, owner1).configurePublicExecution(true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with proposers and executors", () => {
+      async function configureRole(wallet: Contract, txData: string) {
+        const txId = await wallet.transactionCount();
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId));
+      }
+
+      it("A proposer submits transactions but cannot approve or execute them", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await configureRole(wallet, encodeConfigureProposerFunctionData(user.address, true));
+
+        await expect(connect(wallet, user).submit(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.emit(wallet, EVENT_NAME_SUBMIT)
+          .withArgs(user.address, 1);
+        await proveTx(connect(wallet, user).submitMulti([{ to: ADDRESS_STUB1, value: 0, data: TX_DATA_STUB1 }]));
+        expect(await wallet.getApprovalCount(1)).to.eq(0);
+
+        await expect(connect(wallet, user).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, user).approve(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await proveTx(connect(wallet, owner1).approve(1));
+        await proveTx(connect(wallet, owner2).approve(1));
+        await expect(connect(wallet, user).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("An executor executes approved transactions but cannot submit or approve them", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await configureRole(wallet, encodeConfigureExecutorFunctionData(user.address, true));
+
+        await expect(connect(wallet, user).submit(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB2, 0, TX_DATA_STUB1));
+        await expect(connect(wallet, user).approve(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, user).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await proveTx(connect(wallet, owner2).approveBatch([1, 2]));
+        await expect(connect(wallet, user).executeBatch([1, 2]))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(user.address, 2);
+      });
+
+      it("Any account executes approved transactions if the public execution is enabled", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner2).approve(0));
+        await expect(connect(wallet, user).execute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+
+        await configureRole(wallet, encodeConfigurePublicExecutionFunctionData(true));
+        await expect(connect(wallet, user).execute(0))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(user.address, 0);
+      });
+    });
+
+    describe("Function 'configureGuard()'", () => {
+      it("Correctly changes the guard", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.guard()).to.eq(ADDRESS_ZERO);
+
+        const txData = encodeConfigureGuardFunctionData(ADDRESS_STUB1);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_GUARD)
+          .withArgs(ADDRESS_STUB1);
+        expect(await wallet.guard()).to.eq(ADDRESS_STUB1);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).configureGuard(ADDRESS_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with a transaction guard", () => {
+      async function deployWalletWithGuard(): Promise<{ wallet: Contract; guard: Contract }> {
+        const { wallet } = await deployWallet();
+        const guard = await guardFactory.deploy() as Contract;
+        await guard.waitForDeployment();
+
+        const txData = encodeConfigureGuardFunctionData(getAddress(guard));
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+
+        return { wallet, guard };
+      }
+
+      it("The guard is called before and after the execution of a transaction", async () => {
+        const { wallet, guard } = await setUpFixture(deployWalletWithGuard);
+        const walletAddress = getAddress(wallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+
+        const txResponse = connect(wallet, owner2).approveAndExecute(1);
+        await expect(txResponse)
+          .to.emit(guard, EVENT_NAME_CHECK_TRANSACTION)
+          .withArgs(walletAddress, 1, ADDRESS_STUB1, 0, owner2.address);
+        await expect(txResponse)
+          .to.emit(guard, EVENT_NAME_CHECK_AFTER_EXECUTION)
+          .withArgs(walletAddress, 1, true, "0x");
+      });
+
+      it("The guard is called for bundle transactions", async () => {
+        const { wallet, guard } = await setUpFixture(deployWalletWithGuard);
+        const walletAddress = getAddress(wallet);
+        await proveTx(connect(wallet, owner1).submitMulti([{ to: ADDRESS_STUB1, value: 0, data: TX_DATA_STUB1 }]));
+        await proveTx(connect(wallet, owner1).approve(1));
+
+        const txResponse = connect(wallet, owner2).approveAndExecute(1);
+        await expect(txResponse)
+          .to.emit(guard, EVENT_NAME_CHECK_TRANSACTION)
+          .withArgs(walletAddress, 1, walletAddress, 0, owner2.address);
+        await expect(txResponse)
+          .to.emit(guard, EVENT_NAME_CHECK_AFTER_EXECUTION)
+          .withArgs(walletAddress, 1, true, "0x");
+      });
+
+      it("The guard prevents the execution by reverting before it", async () => {
+        const { wallet, guard } = await setUpFixture(deployWalletWithGuard);
+        await proveTx(guard.configure(0, ADDRESS_STUB1, false));
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.be.revertedWithCustomError(guard, ERROR_NAME_GUARD_ERROR)
+          .withArgs("Receiver is forbidden");
+        expect(await wallet.getTransactionStatus(1)).to.eq(TxStatus.Pending);
+      });
+
+      it("The guard prevents the execution by reverting after it", async () => {
+        const { wallet, guard } = await setUpFixture(deployWalletWithGuard);
+        await proveTx(guard.configure(0, ADDRESS_ZERO, true));
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.be.revertedWithCustomError(guard, ERROR_NAME_GUARD_ERROR)
+          .withArgs("Execution result is rejected");
+      });
+
+      it("The guard is not called after it is removed", async () => {
+        const { wallet, guard } = await setUpFixture(deployWalletWithGuard);
+        const txData = encodeConfigureGuardFunctionData(ADDRESS_ZERO);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+        await proveTx(guard.configure(0, ADDRESS_STUB1, false));
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+
+        await expect(connect(wallet, owner2).approveAndExecute(2))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .and.not.to.emit(guard, EVENT_NAME_CHECK_TRANSACTION);
+      });
+    });
+
+    describe("Functions 'enableModule()' and 'disableModule()'", () => {
+      async function executeSelfCall(wallet: Contract, txData: string) {
+        const txId = await wallet.transactionCount();
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        return connect(wallet, owner2).approveAndExecute(txId);
+      }
+
+      it("Correctly enable and disable modules", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.modulesCount()).to.eq(0);
+
+        await expect(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB1)))
+          .to.emit(wallet, EVENT_NAME_ENABLE_MODULE)
+          .withArgs(ADDRESS_STUB1);
+        await proveTx(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB2)));
+        await proveTx(executeSelfCall(wallet, encodeEnableModuleFunctionData(user.address)));
+        expect(await wallet.isModuleEnabled(ADDRESS_STUB1)).to.eq(true);
+        expect(await wallet.modulesCount()).to.eq(3);
+        expect(await wallet.getModules(0, 10)).to.deep.eq([ADDRESS_STUB1, ADDRESS_STUB2, user.address]);
+
+        await expect(executeSelfCall(wallet, encodeDisableModuleFunctionData(ADDRESS_STUB1)))
+          .to.emit(wallet, EVENT_NAME_DISABLE_MODULE)
+          .withArgs(ADDRESS_STUB1);
+        expect(await wallet.isModuleEnabled(ADDRESS_STUB1)).to.eq(false);
+        expect(await wallet.getModules(0, 10)).to.deep.eq([user.address, ADDRESS_STUB2]);
+      });
+
+      it("Function 'getModules()' returns the correct pages of modules", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB1)));
+        await proveTx(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB2)));
+
+        expect(await wallet.getModules(0, 1)).to.deep.eq([ADDRESS_STUB1]);
+        expect(await wallet.getModules(1, 10)).to.deep.eq([ADDRESS_STUB2]);
+        expect(await wallet.getModules(2, 10)).to.deep.eq([]);
+        expect(await wallet.getModules(0, 0)).to.deep.eq([]);
+      });
+
+      it("Are reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).enableModule(ADDRESS_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        await expect(connect(wallet, owner1).disableModule(ADDRESS_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Function 'enableModule()' is reverted if the module is the zero address", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_ZERO)))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_ZERO_MODULE_ADDRESS));
+      });
+
+      it("Function 'enableModule()' is reverted if the module is already enabled", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB1)));
+        await expect(executeSelfCall(wallet, encodeEnableModuleFunctionData(ADDRESS_STUB1)))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_MODULE_ALREADY_ENABLED));
+      });
+
+      it("Function 'disableModule()' is reverted if the module is not enabled", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(executeSelfCall(wallet, encodeDisableModuleFunctionData(ADDRESS_STUB1)))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_MODULE_NOT_ENABLED));
+      });
+    });
+
+    describe("Function 'execFromModule()'", () => {
+      const amount = 234;
+
+      async function deployWalletWithModule(): Promise<{ wallet: Contract; testContractMock: Contract }> {
+        const { wallet } = await deployWallet();
+        const { testContractMock } = await deployTestContractMock();
+        const txData = encodeEnableModuleFunctionData(user.address);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        await proveTx(owner1.sendTransaction({ to: getAddress(wallet), value: TX_VALUE_STUB }));
+        return { wallet, testContractMock };
+      }
+
+      it("Executes a call without approvals and emits the correct events", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployWalletWithModule);
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const testContractAddress = getAddress(testContractMock);
+
+        const [success, result] =
+          await connect(wallet, user).execFromModule.staticCall(testContractAddress, TX_VALUE_STUB, txData);
+        expect(success).to.eq(true);
+        expect(result).to.eq(testContractMock.interface.encodeFunctionResult("testFunction", [amount]));
+
+        const txResponse = connect(wallet, user).execFromModule(testContractAddress, TX_VALUE_STUB, txData);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FROM_MODULE_SUCCESS)
+          .withArgs(user.address);
+        await expect(txResponse)
+          .to.emit(testContractMock, EVENT_NAME_TEST)
+          .withArgs(getAddress(wallet), TX_VALUE_STUB, amount);
+        await expect(txResponse).to.changeEtherBalances(
+          [wallet, testContractMock],
+          [-TX_VALUE_STUB, TX_VALUE_STUB],
+        );
+        expect(await wallet.transactionCount()).to.eq(1);
+      });
+
+      it("Returns the result of a failed call without reverting and emits the correct event", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployWalletWithModule);
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const testContractAddress = getAddress(testContractMock);
+        await proveTx(testContractMock.disable());
+
+        const [success, result] = await connect(wallet, user).execFromModule.staticCall(testContractAddress, 0, txData);
+        expect(success).to.eq(false);
+        expect(result).to.eq(testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]));
+
+        await expect(connect(wallet, user).execFromModule(testContractAddress, 0, txData))
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FROM_MODULE_FAILURE)
+          .withArgs(user.address);
+      });
+
+      it("Is reverted if the caller is not an enabled module", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithModule);
+        await expect(connect(wallet, owner1).execFromModule(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+
+        const txData = encodeDisableModuleFunctionData(user.address);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+        await expect(connect(wallet, user).execFromModule(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Functions 'pause()' and 'unpause()'", () => {
+      const reason = "Suspected key compromise";
+
+      it("Function 'pause()' pauses the wallet and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.paused()).to.eq(false);
+
+        await expect(connect(wallet, owner3).pause(reason))
+          .to.emit(wallet, EVENT_NAME_PAUSE)
+          .withArgs(owner3.address, reason);
+        expect(await wallet.paused()).to.eq(true);
+      });
+
+      it("Function 'pause()' is reverted if the caller is not an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, user).pause(reason))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Function 'pause()' is reverted if the wallet is already paused", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).pause(reason));
+        await expect(connect(wallet, owner2).pause(reason))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_WALLET_PAUSED);
+      });
+
+      it("The paused wallet does not accept and execute transactions except for unpausing", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const calls: Call[] = [{ to: ADDRESS_STUB1, value: 0, data: "0x" }];
+        const txId = 0;
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner2).approve(txId));
+        await proveTx(connect(wallet, owner1).pause(reason));
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_WALLET_PAUSED);
+        await expect(connect(wallet, owner1).submit(ADDRESS_STUB1, 0, TX_DATA_STUB1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_WALLET_PAUSED);
+        await expect(connect(wallet, owner1).submitMulti(calls))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_WALLET_PAUSED);
+        await expect(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, encodeUnpauseFunctionData()))
+          .to.emit(wallet, EVENT_NAME_SUBMIT)
+          .withArgs(owner1.address, 1);
+
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.emit(wallet, EVENT_NAME_UNPAUSE);
+        expect(await wallet.paused()).to.eq(false);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, txId);
+      });
+
+      it("The paused wallet executes cancellations and owner changes before unpausing", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txId = 0;
+        await proveTx(connect(wallet, owner3).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        await proveTx(connect(wallet, owner1).approve(txId));
+        await proveTx(connect(wallet, owner1).pause(reason));
+
+        const cancelTxData = encodeCancelFunctionData(txId);
+        const calls: Call[] = [{ to: getAddress(wallet), value: 0, data: cancelTxData }];
+        await expect(connect(wallet, owner1).submitMulti(calls))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_WALLET_PAUSED);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, cancelTxData));
+        expect(await wallet.getTransactionStatus(1)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner2).approveAndExecute(1))
+          .to.emit(wallet, EVENT_NAME_CANCEL)
+          .withArgs(txId);
+
+        const replaceTxData = encodeReplaceOwnerFunctionData(owner3.address, user.address);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, replaceTxData));
+        await expect(connect(wallet, owner2).approveAndExecute(2))
+          .to.emit(wallet, EVENT_NAME_REPLACE_OWNER)
+          .withArgs(owner3.address, user.address);
+        expect(await wallet.owners()).to.deep.eq([owner1.address, owner2.address, user.address]);
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, encodeUnpauseFunctionData()));
+        await proveTx(connect(wallet, owner2).approveAndExecute(3));
+        expect(await wallet.paused()).to.eq(false);
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_CANCELLED);
+      });
+
+      it("Function 'unpause()' requires the approvals of the wallet quorum regardless of policies", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const selector = encodeUnpauseFunctionData();
+        const policy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: 0 };
+        const txData = encodeConfigureSelectorPolicyFunctionData(getAddress(wallet), selector, policy);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        await proveTx(connect(wallet, owner1).pause(reason));
+
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, encodeUnpauseFunctionData()));
+        expect(await wallet.getRequiredApprovals(1)).to.eq(REQUIRED_APPROVALS);
+        expect(await wallet.getTransactionStatus(1)).to.eq(TxStatus.Pending);
+        await expect(connect(wallet, owner1).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+
+        await proveTx(connect(wallet, owner2).approveAndExecute(1));
+        expect(await wallet.paused()).to.eq(false);
+      });
+
+      it("Function 'unpause()' is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).pause(reason));
+        await expect(connect(wallet, owner1).unpause())
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Function 'unpause()' is reverted if the wallet is not paused", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, encodeUnpauseFunctionData()));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_WALLET_NOT_PAUSED));
+      });
+
+      it("The paused wallet still executes calls of enabled modules", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeEnableModuleFunctionData(user.address);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        await proveTx(connect(wallet, owner1).pause(reason));
+
+        await expect(connect(wallet, user).execFromModule(getAddress(wallet), 0, encodeUnpauseFunctionData()))
+          .to.emit(wallet, EVENT_NAME_UNPAUSE);
+        expect(await wallet.paused()).to.eq(false);
+      });
+    });
+
+    describe("Function 'receive()'", () => {
+      describe("Executes as expected and emits the correct event when it is called indirectly with", () => {
+        async function checkExecutionOfReceive(params: { value: number }) {
+          const { wallet } = await setUpFixture(deployWallet);
+
+          const txResponse = user.sendTransaction({
+            to: getAddress(wallet),
+            value: params.value,
+          });
+
+          await expect(txResponse)
+            .to.emit(wallet, EVENT_NAME_DEPOSIT)
+            .withArgs(user.address, params.value);
+          await expect(txResponse).to.changeEtherBalances(
+            [wallet, user],
+            [+params.value, -params.value],
+          );
+        }
+
+        it("A nonzero value", async () => {
+          await checkExecutionOfReceive({ value: TX_VALUE_STUB });
+        });
+
+        it("The zero value", async () => {
+          await checkExecutionOfReceive({ value: 0 });
+        });
+      });
+    });
+
+    describe("Functions 'onERC721Received()', 'onERC1155Received()' and 'onERC1155BatchReceived()'", () => {
+      const TOKEN_ID = 7;
+      const TOKEN_IDS = [1, 2];
+      const TOKEN_AMOUNT = 100;
+      const TOKEN_AMOUNTS = [10, 20];
+
+      it("Accept a safe ERC-721 transfer and emit the correct event", async () => {
+        const { wallet, erc721Token } = await setUpFixture(deployWalletWithTokens);
+        await proveTx(erc721Token.mint(user.address, TOKEN_ID));
+
+        await expect(connect(erc721Token, user).safeTransferFrom(user.address, getAddress(wallet), TOKEN_ID))
+          .to.emit(wallet, EVENT_NAME_DEPOSIT_ERC721)
+          .withArgs(getAddress(erc721Token), user.address, TOKEN_ID);
+        expect(await erc721Token.ownerOf(TOKEN_ID)).to.eq(getAddress(wallet));
+      });
+
+      it("Accept a single ERC-1155 transfer and emit the correct event", async () => {
+        const { wallet, erc1155Token } = await setUpFixture(deployWalletWithTokens);
+        await proveTx(erc1155Token.mint(user.address, TOKEN_ID, TOKEN_AMOUNT));
+
+        await expect(
+          connect(erc1155Token, user).safeTransferFrom(user.address, getAddress(wallet), TOKEN_ID, TOKEN_AMOUNT, "0x"),
+        )
+          .to.emit(wallet, EVENT_NAME_DEPOSIT_ERC1155)
+          .withArgs(getAddress(erc1155Token), user.address, TOKEN_ID, TOKEN_AMOUNT);
+        expect(await erc1155Token.balanceOf(getAddress(wallet), TOKEN_ID)).to.eq(TOKEN_AMOUNT);
+      });
+
+      it("Accept a batch ERC-1155 transfer and emit the correct event", async () => {
+        const { wallet, erc1155Token } = await setUpFixture(deployWalletWithTokens);
+        await proveTx(erc1155Token.mintBatch(user.address, TOKEN_IDS, TOKEN_AMOUNTS));
+
+        await expect(
+          connect(erc1155Token, user).safeBatchTransferFrom(
+            user.address,
+            getAddress(wallet),
+            TOKEN_IDS,
+            TOKEN_AMOUNTS,
+            "0x",
+          ),
+        )
+          .to.emit(wallet, EVENT_NAME_DEPOSIT_ERC1155_BATCH)
+          .withArgs(getAddress(erc1155Token), user.address, TOKEN_IDS, TOKEN_AMOUNTS);
+        for (let i = 0; i < TOKEN_IDS.length; ++i) {
+          expect(await erc1155Token.balanceOf(getAddress(wallet), TOKEN_IDS[i])).to.eq(TOKEN_AMOUNTS[i]);
+        }
+      });
+
+      it("Allow received tokens to be transferred out through a wallet transaction", async () => {
+        const { wallet, erc721Token, erc1155Token } = await setUpFixture(deployWalletWithTokens);
+        const walletAddress = getAddress(wallet);
+        await proveTx(erc721Token.safeMint(walletAddress, TOKEN_ID));
+        await proveTx(erc1155Token.mint(walletAddress, TOKEN_ID, TOKEN_AMOUNT));
+
+        const erc721TxData = erc721Token.interface.encodeFunctionData(
+          "safeTransferFrom(address,address,uint256)",
+          [walletAddress, user.address, TOKEN_ID],
+        );
+        const erc1155TxData = erc1155Token.interface.encodeFunctionData(
+          "safeTransferFrom",
+          [walletAddress, user.address, TOKEN_ID, TOKEN_AMOUNT, "0x"],
+        );
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(erc721Token), 0, erc721TxData));
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(erc1155Token), 0, erc1155TxData));
+        await proveTx(connect(wallet, owner2).approveAndExecuteBatch([0, 1]));
+
+        expect(await erc721Token.ownerOf(TOKEN_ID)).to.eq(user.address);
+        expect(await erc1155Token.balanceOf(user.address, TOKEN_ID)).to.eq(TOKEN_AMOUNT);
+        expect(await erc1155Token.balanceOf(walletAddress, TOKEN_ID)).to.eq(0);
+      });
+    });
+
+    describe("Function 'supportsInterface()'", () => {
+      it("Returns the correct values for supported and unsupported interfaces", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const interfaceIdErc165 = "0x01ffc9a7";
+        const interfaceIdErc721Receiver = "0x150b7a02";
+        const interfaceIdErc1155Receiver = "0x4e2312e0";
+        const interfaceIdErc1271 = "0x1626ba7e";
+        const interfaceIdInvalid = "0xffffffff";
+
+        expect(await wallet.supportsInterface(interfaceIdErc165)).to.eq(true);
+        expect(await wallet.supportsInterface(interfaceIdErc721Receiver)).to.eq(true);
+        expect(await wallet.supportsInterface(interfaceIdErc1155Receiver)).to.eq(true);
+        expect(await wallet.supportsInterface(interfaceIdErc1271)).to.eq(true);
+        expect(await wallet.supportsInterface(interfaceIdInvalid)).to.eq(false);
+      });
+    });
+
+    describe("Function 'submit()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: TX_VALUE_STUB,
+        data: TX_DATA_STUB1,
+      };
+
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+
+        await expect(connect(wallet, owner1).submit(tx.to, tx.value, tx.data))
+          .to.emit(wallet, EVENT_NAME_SUBMIT)
+          .withArgs(owner1.address, tx.id);
+
+        const actualTx = await wallet.getTransaction(tx.id);
+        checkTxEquality(actualTx, tx);
+        expect(await wallet.transactionCount()).to.eq(1);
+      });
+
+      it("Is reverted if it is called not by an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.submit(tx.to, tx.value, tx.data))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Function 'submitAndApprove()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: TX_VALUE_STUB,
+        data: TX_DATA_STUB1,
+      };
+
+      it("Executes as expected and emits the correct events", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txResponse = connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data);
+
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_SUBMIT).withArgs(owner1.address, tx.id);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner1.address, tx.id);
+
+        const actualTx = await wallet.getTransaction(tx.id);
+        checkTxEquality(actualTx, tx);
+        expect(await wallet.transactionCount()).to.eq(1);
+        expect(await wallet.getApprovalStatus(tx.id, owner1.address)).to.eq(true);
+      });
+
+      it("Is reverted if it is called not by an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.submitAndApprove(tx.to, tx.value, tx.data))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Function 'submitMulti()'", () => {
+      const calls: Call[] = [
+        { to: ADDRESS_STUB1, value: TX_VALUE_STUB, data: TX_DATA_STUB1 },
+        { to: ADDRESS_STUB2, value: TX_VALUE_STUB * 2, data: "0x" },
+      ];
+
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const tx: TestTx = {
+          id: 0,
+          to: getAddress(wallet),
+          value: TX_VALUE_STUB * 3,
+          data: encodeCalls(calls),
+          bundled: true,
+        };
+
+        await expect(connect(wallet, owner1).submitMulti(calls))
+          .to.emit(wallet, EVENT_NAME_SUBMIT)
+          .withArgs(owner1.address, tx.id);
+
+        const actualTx = await wallet.getTransaction(tx.id);
+        checkTxEquality(actualTx, tx);
+        expect(await wallet.transactionCount()).to.eq(1);
+      });
+
+      it("Is reverted if it is called not by an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.submitMulti(calls))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the array of calls is empty", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).submitMulti([]))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_EMPTY_CALLS_ARRAY);
+      });
+    });
+
+    describe("Function 'approve()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: 0,
+        data: TX_DATA_STUB1,
+      };
+
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        expect(await wallet.getApprovalCount(tx.id)).to.eq(0);
+
+        await expect(connect(wallet, owner1).approve(tx.id))
+          .to.emit(wallet, EVENT_NAME_APPROVE)
+          .withArgs(owner1.address, tx.id);
 
         expect(await wallet.getApprovalStatus(tx.id, owner1.address)).to.eq(true);
 
@@ -565,16 +2406,101 @@ describe("MultiSigWallet contract", () => {
           .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_ALREADY_EXECUTED);
       });
 
-      it("Is reverted if the transaction is already approved by the same owner", async () => {
+      it("Is reverted if the transaction is already approved by the same owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        for (const tx of txs) {
+          await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        }
+        const lastTx: TestTx = txs[txs.length - 1];
+        await proveTx(connect(wallet, owner1).approve(lastTx.id));
+
+        await expect(connect(wallet, owner1).approveBatch(txIds))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_ALREADY_APPROVED);
+      });
+    });
+
+    describe("Function 'approveBySig()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: 0,
+        data: TX_DATA_STUB1,
+      };
+
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner2, wallet, tx.id);
+
+        await expect(connect(wallet, owner1).approveBySig(tx.id, signature))
+          .to.emit(wallet, EVENT_NAME_APPROVE)
+          .withArgs(owner2.address, tx.id);
+
+        expect(await wallet.getApprovalStatus(tx.id, owner2.address)).to.eq(true);
+        expect(await wallet.getApprovalStatus(tx.id, owner1.address)).to.eq(false);
+        expect(await wallet.getApprovalCount(tx.id)).to.eq(1);
+      });
+
+      it("Is reverted if it is called not by an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner2, wallet, tx.id);
+
+        await expect(wallet.approveBySig(tx.id, signature))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).approveBySig(tx.id, "0x"))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_NOT_EXIST);
+      });
+
+      it("Is reverted if the signature is malformed", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+
+        await expect(connect(wallet, owner1).approveBySig(tx.id, TX_DATA_STUB1))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_INVALID_SIGNATURE);
+      });
+
+      it("Is reverted if the signer is not an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(user, wallet, tx.id);
+
+        await expect(connect(wallet, owner1).approveBySig(tx.id, signature))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_SIGNER);
+      });
+
+      it("Is reverted if the signature is made for another transaction", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner2, wallet, tx.id + 1);
+
+        await expect(connect(wallet, owner1).approveBySig(tx.id, signature))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_SIGNER);
+      });
+
+      it("Is reverted if the transaction is already approved by the signer", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner1, wallet, tx.id);
+
+        await expect(connect(wallet, owner2).approveBySig(tx.id, signature))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_ALREADY_APPROVED);
+      });
+
+      it("Is reverted if the signature is replayed after the approval is revoked", async () => {
         const { wallet } = await setUpFixture(deployWallet);
-        for (const tx of txs) {
-          await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
-        }
-        const lastTx: TestTx = txs[txs.length - 1];
-        await proveTx(connect(wallet, owner1).approve(lastTx.id));
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner2, wallet, tx.id);
+        await proveTx(connect(wallet, owner1).approveBySig(tx.id, signature));
+        await proveTx(connect(wallet, owner2).revoke(tx.id));
 
-        await expect(connect(wallet, owner1).approveBatch(txIds))
-          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_ALREADY_APPROVED);
+        await expect(connect(wallet, owner1).approveBySig(tx.id, signature))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_APPROVAL_SIGNATURE_ALREADY_USED);
       });
     });
 
@@ -810,6 +2736,95 @@ describe("MultiSigWallet contract", () => {
       });
     });
 
+    describe("Function 'executeWithSignatures()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: 0,
+        data: TX_DATA_STUB1,
+      };
+
+      it("Executes as expected and emits the correct events", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signatures = [
+          await signTransaction(owner2, wallet, tx.id),
+          await signTransaction(owner3, wallet, tx.id),
+        ];
+
+        const txResponse = connect(wallet, owner1).executeWithSignatures(tx.id, signatures);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner2.address, tx.id);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner3.address, tx.id);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_EXECUTE).withArgs(owner1.address, tx.id);
+
+        const actualTx = await wallet.getTransaction(tx.id);
+        checkTxEquality(actualTx, { ...tx, executed: true });
+      });
+
+      it("Counts signatures together with the existing on-chain approvals", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        const signatures = [await signTransaction(owner3, wallet, tx.id)];
+
+        await expect(connect(wallet, owner2).executeWithSignatures(tx.id, signatures))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner2.address, tx.id);
+        expect(await wallet.getApprovalCount(tx.id)).to.eq(2);
+      });
+
+      it("Is reverted if it is called not by an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.executeWithSignatures(tx.id, []))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).executeWithSignatures(tx.id, []))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_NOT_EXIST);
+      });
+
+      it("Is reverted if the same signature is passed twice", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signature = await signTransaction(owner2, wallet, tx.id);
+
+        await expect(connect(wallet, owner1).executeWithSignatures(tx.id, [signature, signature]))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_APPROVAL_SIGNATURE_ALREADY_USED);
+      });
+
+      it("Is reverted if one of the signers is not an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signatures = [
+          await signTransaction(owner2, wallet, tx.id),
+          await signTransaction(user, wallet, tx.id),
+        ];
+
+        await expect(connect(wallet, owner1).executeWithSignatures(tx.id, signatures))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_SIGNER);
+      });
+
+      it("Is reverted if the transaction has not enough approvals", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        const signatures = [await signTransaction(owner2, wallet, tx.id)];
+
+        await expect(connect(wallet, owner1).executeWithSignatures(tx.id, signatures))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("Is reverted if the transaction is already executed", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner2).approveAndExecute(tx.id));
+        const signatures = [await signTransaction(owner3, wallet, tx.id)];
+
+        await expect(connect(wallet, owner1).executeWithSignatures(tx.id, signatures))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_ALREADY_EXECUTED);
+      });
+    });
+
     describe("Function 'executeBatch()'", () => {
       const txs: TestTx[] = [
         {
@@ -1027,6 +3042,148 @@ describe("MultiSigWallet contract", () => {
       });
     });
 
+    describe("Function 'cancel()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: 0,
+        data: TX_DATA_STUB1,
+      };
+      const cancelTxId = 1;
+
+      async function prepareCancelledTransaction(): Promise<{ wallet: Contract }> {
+        const { wallet } = await deployWallet();
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        const txData = encodeCancelFunctionData(tx.id);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(cancelTxId));
+        return { wallet };
+      }
+
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        const txData = encodeCancelFunctionData(tx.id);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(cancelTxId))
+          .to.emit(wallet, EVENT_NAME_CANCEL)
+          .withArgs(tx.id);
+
+        const actualTx = await wallet.getTransaction(tx.id);
+        checkTxEquality(actualTx, { ...tx, cancelled: true });
+        const actualTxs = await wallet.getTransactions(tx.id, 1);
+        checkTxArrayEquality(actualTxs, [{ ...tx, cancelled: true }]);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).cancel(tx.id))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeCancelFunctionData(cancelTxId + 1);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_TRANSACTION_NOT_EXIST));
+      });
+
+      it("Is reverted if the transaction is already executed", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner2).approveAndExecute(tx.id));
+        const txData = encodeCancelFunctionData(tx.id);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(cancelTxId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_TRANSACTION_ALREADY_EXECUTED));
+      });
+
+      it("Is reverted if the transaction is already cancelled", async () => {
+        const { wallet } = await setUpFixture(prepareCancelledTransaction);
+        const txData = encodeCancelFunctionData(tx.id);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(cancelTxId + 1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_TRANSACTION_CANCELLED));
+      });
+
+      it("Makes the cancelled transaction impossible to approve, execute or revoke", async () => {
+        const { wallet } = await setUpFixture(prepareCancelledTransaction);
+
+        await expect(connect(wallet, owner2).approve(tx.id))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_CANCELLED);
+        await expect(connect(wallet, owner2).approveAndExecute(tx.id))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_CANCELLED);
+        await expect(connect(wallet, owner1).execute(tx.id))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_CANCELLED);
+        await expect(connect(wallet, owner1).revoke(tx.id))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_CANCELLED);
+      });
+    });
+
+    describe("Function 'cancelBatch()'", () => {
+      const txs: TestTx[] = [
+        {
+          id: 0,
+          to: ADDRESS_STUB1,
+          value: 0,
+          data: TX_DATA_STUB1,
+        },
+        {
+          id: 1,
+          to: ADDRESS_STUB2,
+          value: 0,
+          data: TX_DATA_STUB2,
+        },
+      ];
+      const txIds: number[] = txs.map(tx => tx.id);
+      const cancelTxId = txs.length;
+
+      it("Executes as expected and emits the correct events", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        for (const tx of txs) {
+          await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        }
+        const txData = encodeCancelBatchFunctionData(txIds);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        const txResponse = connect(wallet, owner2).approveAndExecute(cancelTxId);
+        for (const tx of txs) {
+          await expect(txResponse).to.emit(wallet, EVENT_NAME_CANCEL).withArgs(tx.id);
+          const actualTx = await wallet.getTransaction(tx.id);
+          checkTxEquality(actualTx, { ...tx, cancelled: true });
+        }
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).cancelBatch(txIds))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+
+      it("Is reverted if a transaction from the batch is already executed", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        for (const tx of txs) {
+          await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        }
+        const lastTx: TestTx = txs[txs.length - 1];
+        await proveTx(connect(wallet, owner2).approveAndExecute(lastTx.id));
+        const txData = encodeCancelBatchFunctionData(txIds);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+
+        await expect(connect(wallet, owner2).approveAndExecute(cancelTxId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(wallet.interface.encodeErrorResult(ERROR_NAME_TRANSACTION_ALREADY_EXECUTED));
+      });
+    });
+
     describe("Functions 'getTransaction()' and 'getTransactions()'", () => {
       const txs: TestTx[] = [0, 1, 2, 3].map((id) => {
         return {
@@ -1067,23 +3224,233 @@ describe("MultiSigWallet contract", () => {
         actualTxs = await wallet.getTransactions(0, 2);
         checkTxArrayEquality(actualTxs, [txs[0], txs[1]]);
 
-        actualTxs = await wallet.getTransactions(1, 2);
-        checkTxArrayEquality(actualTxs, [txs[1], txs[2]]);
+        actualTxs = await wallet.getTransactions(1, 2);
+        checkTxArrayEquality(actualTxs, [txs[1], txs[2]]);
+
+        actualTxs = await wallet.getTransactions(1, 1);
+        checkTxArrayEquality(actualTxs, [txs[1]]);
+
+        actualTxs = await wallet.getTransactions(2, 2);
+        checkTxArrayEquality(actualTxs, [txs[2], txs[3]]);
+
+        actualTxs = await wallet.getTransactions(2, 50);
+        checkTxArrayEquality(actualTxs, [txs[2], txs[3]]);
+
+        actualTxs = await wallet.getTransactions(4, 50);
+        checkTxArrayEquality(actualTxs, []);
+
+        actualTxs = await wallet.getTransactions(1, 0);
+        checkTxArrayEquality(actualTxs, []);
+      });
+    });
+
+    describe("Functions 'getTransactionStatus()', 'getTransactionsByStatus()', 'getPendingTransactionIds()'", () => {
+      const tx: TestTx = {
+        id: 0,
+        to: ADDRESS_STUB1,
+        value: 0,
+        data: TX_DATA_STUB1,
+      };
+
+      async function checkStatuses(wallet: Contract, expectedStatuses: TxStatus[]) {
+        for (let txId = 0; txId < expectedStatuses.length; ++txId) {
+          expect(await wallet.getTransactionStatus(txId)).to.eq(expectedStatuses[txId], `tx[${txId}] status`);
+        }
+      }
+
+      it("Execute as expected through the whole transaction lifecycle", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const walletAddress = getAddress(wallet);
+
+        // tx[0]: pending, tx[1]: executable, tx[2]: executed
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner2).approve(1));
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner2).approveAndExecute(2));
+
+        // tx[3]: cancelled by the executed tx[4]
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner1).submitAndApprove(walletAddress, 0, encodeCancelFunctionData(3)));
+        await proveTx(connect(wallet, owner2).approveAndExecute(4));
+
+        // tx[5]: configures the cooldown time, tx[6]: on cooldown
+        const txData = encodeConfigureCooldownTimeFunctionData(TWO_HOURS);
+        await proveTx(connect(wallet, owner1).submitAndApprove(walletAddress, 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(5));
+        await proveTx(connect(wallet, owner1).submit(tx.to, tx.value, tx.data));
+
+        await checkStatuses(wallet, [
+          TxStatus.Pending,
+          TxStatus.Executable,
+          TxStatus.Executed,
+          TxStatus.Cancelled,
+          TxStatus.Executed,
+          TxStatus.Executed,
+          TxStatus.Cooldown,
+        ]);
+
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 0, 50)).to.deep.eq([2, 4, 5]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 1, 50)).to.deep.eq([4, 5]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 0, 2)).to.deep.eq([2, 4]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 1, 1)).to.deep.eq([4]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 3, 50)).to.deep.eq([]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Executed, 0, 0)).to.deep.eq([]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Cancelled, 0, 50)).to.deep.eq([3]);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Expired, 0, 50)).to.deep.eq([]);
+        expect(await wallet.getPendingTransactionIds()).to.deep.eq([0, 1, 6]);
+
+        await increaseBlockTimestamp(TWO_HOURS);
+        await checkStatuses(wallet, [TxStatus.Pending, TxStatus.Executable]);
+        expect(await wallet.getTransactionStatus(6)).to.eq(TxStatus.Pending);
+
+        await increaseBlockTimestamp(DEFAULT_EXPIRATION_TIME + 1);
+        await checkStatuses(wallet, [TxStatus.Expired, TxStatus.Expired]);
+        expect(await wallet.getTransactionStatus(6)).to.eq(TxStatus.Expired);
+        expect(await wallet.getTransactionsByStatus(TxStatus.Expired, 0, 50)).to.deep.eq([0, 1, 6]);
+        expect(await wallet.getPendingTransactionIds()).to.deep.eq([]);
+      });
+
+      it("Report the transactions blocked by the pause as pending except for unpausing", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submitAndApprove(tx.to, tx.value, tx.data));
+        await proveTx(connect(wallet, owner2).approve(0));
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, encodeUnpauseFunctionData()));
+        await proveTx(connect(wallet, owner2).approve(1));
+        await checkStatuses(wallet, [TxStatus.Executable, TxStatus.Executable]);
+
+        await proveTx(connect(wallet, owner1).pause("Reason"));
+        await checkStatuses(wallet, [TxStatus.Pending, TxStatus.Executable]);
+        expect(await wallet.getPendingTransactionIds()).to.deep.eq([0, 1]);
+
+        await proveTx(connect(wallet, owner1).execute(1));
+        await checkStatuses(wallet, [TxStatus.Executable, TxStatus.Executed]);
+      });
+
+      it("Function 'getTransactionStatus()' is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.getTransactionStatus(0))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_NOT_EXIST);
+      });
+    });
+
+    describe("Function 'signMessage()'", () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txData = encodeSignMessageFunctionData(MESSAGE_HASH_STUB);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        expect(await wallet.isMessageSigned(MESSAGE_HASH_STUB)).to.eq(false);
+
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_SIGN_MESSAGE)
+          .withArgs(MESSAGE_HASH_STUB);
+
+        expect(await wallet.isMessageSigned(MESSAGE_HASH_STUB)).to.eq(true);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(connect(wallet, owner1).signMessage(MESSAGE_HASH_STUB))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Function 'isValidSignature()'", () => {
+      it("Returns the magic value for a message signed through an executed wallet transaction", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, "0x")).to.eq(ERC1271_INVALID_VALUE);
+
+        const txData = encodeSignMessageFunctionData(MESSAGE_HASH_STUB);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, "0x")).to.eq(ERC1271_MAGIC_VALUE);
+        expect(await wallet.isValidSignature(ethers.id("Another message"), "0x")).to.eq(ERC1271_INVALID_VALUE);
+      });
+
+      it("Returns the magic value for enough sorted owner signatures", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const signature = await buildWalletSignature([owner1, owner3], wallet, MESSAGE_HASH_STUB);
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, signature)).to.eq(ERC1271_MAGIC_VALUE);
+        expect(await wallet.isMessageSigned(MESSAGE_HASH_STUB)).to.eq(false);
+      });
+
+      it("Returns the invalid value for not enough owner signatures", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const signature = await buildWalletSignature([owner2], wallet, MESSAGE_HASH_STUB);
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, signature)).to.eq(ERC1271_INVALID_VALUE);
+      });
+
+      it("Returns the invalid value if one of the signers is not an owner", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const signature = await buildWalletSignature([owner1, user], wallet, MESSAGE_HASH_STUB);
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, signature)).to.eq(ERC1271_INVALID_VALUE);
+      });
+
+      it("Returns the invalid value for duplicate or unsorted signatures", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const signature = await signWalletMessage(owner1, wallet, MESSAGE_HASH_STUB);
+        const sortedSignature = await buildWalletSignature([owner1, owner2], wallet, MESSAGE_HASH_STUB);
+        const unsortedSignature = ethers.concat([
+          ethers.dataSlice(sortedSignature, 65),
+          ethers.dataSlice(sortedSignature, 0, 65),
+        ]);
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, ethers.concat([signature, signature])))
+          .to.eq(ERC1271_INVALID_VALUE);
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, unsortedSignature)).to.eq(ERC1271_INVALID_VALUE);
+      });
 
-        actualTxs = await wallet.getTransactions(1, 1);
-        checkTxArrayEquality(actualTxs, [txs[1]]);
+      it("Returns the invalid value for signatures of a raw hash or a malformed signature", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const signatures = [
+          await owner1.signMessage(ethers.getBytes(MESSAGE_HASH_STUB)),
+          await owner2.signMessage(ethers.getBytes(MESSAGE_HASH_STUB)),
+        ];
+        const sortedSignature = await buildWalletSignature([owner1, owner2], wallet, MESSAGE_HASH_STUB);
+
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, ethers.concat(signatures)))
+          .to.eq(ERC1271_INVALID_VALUE);
+        expect(await wallet.isValidSignature(MESSAGE_HASH_STUB, ethers.dataSlice(sortedSignature, 1)))
+          .to.eq(ERC1271_INVALID_VALUE);
+      });
 
-        actualTxs = await wallet.getTransactions(2, 2);
-        checkTxArrayEquality(actualTxs, [txs[2], txs[3]]);
+      it("Function 'getMessageHash()' returns the typed data hash matching the off-chain computation", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const { chainId } = await ethers.provider.getNetwork();
+        const expectedHash = ethers.TypedDataEncoder.hash(
+          { name: "MultiSigWallet", version: "1", chainId, verifyingContract: getAddress(wallet) },
+          { Message: [{ name: "hash", type: "bytes32" }] },
+          { hash: MESSAGE_HASH_STUB },
+        );
+
+        expect(await wallet.getMessageHash(MESSAGE_HASH_STUB)).to.eq(expectedHash);
+      });
+    });
 
-        actualTxs = await wallet.getTransactions(2, 50);
-        checkTxArrayEquality(actualTxs, [txs[2], txs[3]]);
+    describe("Functions 'getTransactionHash()' and 'domainSeparator()'", () => {
+      it("Return the EIP-712 values matching the off-chain computation", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(connect(wallet, owner1).submit(ADDRESS_STUB1, TX_VALUE_STUB, TX_DATA_STUB1));
+        const { chainId } = await ethers.provider.getNetwork();
+        const expectedDomainSeparator = ethers.TypedDataEncoder.hashDomain({
+          name: "MultiSigWallet",
+          version: "1",
+          chainId,
+          verifyingContract: getAddress(wallet),
+        });
 
-        actualTxs = await wallet.getTransactions(4, 50);
-        checkTxArrayEquality(actualTxs, []);
+        expect(await wallet.domainSeparator()).to.eq(expectedDomainSeparator);
+        expect(await wallet.getTransactionHash(0)).to.eq(await hashTransaction(wallet, 0));
+      });
 
-        actualTxs = await wallet.getTransactions(1, 0);
-        checkTxArrayEquality(actualTxs, []);
+      it("Function 'getTransactionHash()' is reverted if the transaction does not exist", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.getTransactionHash(0))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_NOT_EXIST);
       });
     });
 
@@ -1137,6 +3504,97 @@ describe("MultiSigWallet contract", () => {
           .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_EXPIRED);
       });
 
+      describe("Submission with the requested times", () => {
+        async function deployWalletWithMaxTimes(): Promise<{ wallet: Contract }> {
+          const { wallet } = await deployWallet();
+          const txData = encodeConfigureMaxTransactionTimesFunctionData(ONE_DAY, ONE_YEAR);
+          await executeWalletTx({ wallet, txData });
+          return { wallet };
+        }
+
+        function submitWithTimes(
+          wallet: Contract,
+          cooldownTime: number,
+          expirationTime: number,
+          signature: string = SUBMIT_WITH_OPTIONS_SIGNATURE,
+        ): Promise<TransactionResponse> {
+          const options = getSubmitOptions({ cooldownTime, expirationTime });
+          return connect(wallet, owner1)[signature](tx.to, tx.value, tx.data, options);
+        }
+
+        it("Sets the cooldown and expiration fields properly", async () => {
+          const { wallet } = await setUpFixture(deployWalletWithMaxTimes);
+          const txId = 1;
+
+          const txResponse = submitWithTimes(wallet, TWO_HOURS, ONE_YEAR, SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE);
+          await expect(txResponse).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner1.address, txId);
+          const timestamp: number = await getTxTimestamp(txResponse);
+          const txStruct = await wallet.getTransaction(txId);
+          expect(txStruct.cooldown).to.eq(timestamp + TWO_HOURS);
+          expect(txStruct.expiration).to.eq(timestamp + TWO_HOURS + ONE_YEAR);
+        });
+
+        it("Applies the default times if the zero times are requested", async () => {
+          const { wallet } = await setUpFixture(deployWalletWithMaxTimes);
+          const txId = 1;
+
+          const txResponse = submitWithTimes(wallet, 0, 0);
+          await expect(txResponse).to.emit(wallet, EVENT_NAME_SUBMIT).withArgs(owner1.address, txId);
+          const timestamp: number = await getTxTimestamp(txResponse);
+          const txStruct = await wallet.getTransaction(txId);
+          expect(txStruct.cooldown).to.eq(timestamp);
+          expect(txStruct.expiration).to.eq(timestamp + DEFAULT_EXPIRATION_TIME);
+        });
+
+        it("Accepts the default times even if the maximums are not configured", async () => {
+          const { wallet } = await setUpFixture(deployWallet);
+
+          await expect(submitWithTimes(wallet, 0, DEFAULT_EXPIRATION_TIME))
+            .to.emit(wallet, EVENT_NAME_SUBMIT)
+            .withArgs(owner1.address, 0);
+          await expect(submitWithTimes(wallet, 1, DEFAULT_EXPIRATION_TIME))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_COOLDOWN_TIME);
+          await expect(submitWithTimes(wallet, 0, ONE_YEAR))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_EXPIRATION_TIME);
+        });
+
+        it("Is reverted if the cooldown time is out of the allowed range", async () => {
+          const { wallet } = await setUpFixture(deployWalletWithMaxTimes);
+          const policy: Policy = { enabled: true, requiredApprovals: 2, cooldownTime: TWO_HOURS };
+          const txData = encodeConfigureDestinationPolicyFunctionData(tx.to, policy);
+          await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+          await proveTx(connect(wallet, owner2).approveAndExecute(1));
+
+          await expect(submitWithTimes(wallet, ONE_MINUTE, ONE_YEAR))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_COOLDOWN_TIME);
+          await expect(submitWithTimes(wallet, ONE_DAY + 1, ONE_YEAR))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_COOLDOWN_TIME);
+          await proveTx(submitWithTimes(wallet, ONE_DAY, ONE_YEAR));
+        });
+
+        it("Is reverted if the expiration time is out of the allowed range", async () => {
+          const { wallet } = await setUpFixture(deployWalletWithMaxTimes);
+          const tooShortTime = DEFAULT_EXPIRATION_TIME - 1;
+          const tooLongTime = ONE_YEAR + 1;
+
+          await expect(submitWithTimes(wallet, 0, tooShortTime))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_EXPIRATION_TIME);
+          await expect(submitWithTimes(wallet, 0, tooLongTime, SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_INVALID_EXPIRATION_TIME);
+        });
+
+        it("Is reverted if the caller is not allowed to submit transactions", async () => {
+          const { wallet } = await setUpFixture(deployWallet);
+          const options = getSubmitOptions({});
+
+          await expect(connect(wallet, user)[SUBMIT_WITH_OPTIONS_SIGNATURE](tx.to, tx.value, tx.data, options))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+          await expect(
+            connect(wallet, user)[SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE](tx.to, tx.value, tx.data, options),
+          ).to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+        });
+      });
+
       async function prepareExecutionWithSingleApproval(): Promise<{
         wallet: Contract;
         txId: number;
@@ -1175,6 +3633,496 @@ describe("MultiSigWallet contract", () => {
       });
     });
 
+    describe("Function 'configureOrderedExecution()'", () => {
+      it("Correctly changes the ordered execution status", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.orderedExecution()).to.eq(false);
+
+        const txData = encodeConfigureOrderedExecutionFunctionData(true);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_ORDERED_EXECUTION)
+          .withArgs(true);
+        expect(await wallet.orderedExecution()).to.eq(true);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureOrderedExecution(true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with ordered execution", () => {
+      async function deployWalletWithOrderedExecution(): Promise<{ wallet: Contract }> {
+        const { wallet } = await deployWallet();
+        const txData = encodeConfigureOrderedExecutionFunctionData(true);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        return { wallet };
+      }
+
+      async function submitApprovedTx(wallet: Contract, to = ADDRESS_STUB1, txData = TX_DATA_STUB1): Promise<number> {
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(to, 0, txData));
+        await proveTx(connect(wallet, owner2).approve(txId));
+        return txId;
+      }
+
+      it("Only the lowest open transaction can be executed", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const txId1 = await submitApprovedTx(wallet);
+        const txId2 = await submitApprovedTx(wallet);
+        expect(await wallet.nextExecutableTxId()).to.eq(txId1);
+
+        await expect(connect(wallet, owner1).execute(txId2))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_OUT_OF_ORDER);
+        await proveTx(connect(wallet, owner1).execute(txId1));
+        expect(await wallet.nextExecutableTxId()).to.eq(txId2);
+        await proveTx(connect(wallet, owner1).execute(txId2));
+        expect(await wallet.nextExecutableTxId()).to.eq(await wallet.transactionCount());
+      });
+
+      it("Transactions after the next executable one are reported as pending", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const txId1 = await submitApprovedTx(wallet);
+        const txId2 = await submitApprovedTx(wallet);
+
+        expect(await wallet.getTransactionStatus(txId1)).to.eq(TxStatus.Executable);
+        expect(await wallet.getTransactionStatus(txId2)).to.eq(TxStatus.Pending);
+        await proveTx(connect(wallet, owner1).execute(txId1));
+        expect(await wallet.getTransactionStatus(txId2)).to.eq(TxStatus.Executable);
+      });
+
+      it("Expired transactions are skipped", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const txId1 = await submitApprovedTx(wallet);
+        await increaseBlockTimestamp(ONE_DAY);
+        const txId2 = await submitApprovedTx(wallet);
+
+        await expect(connect(wallet, owner1).execute(txId2))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_OUT_OF_ORDER);
+
+        await increaseBlockTimestamp(DEFAULT_EXPIRATION_TIME - ONE_DAY);
+        expect(await wallet.getTransactionStatus(txId1)).to.eq(TxStatus.Expired);
+        expect(await wallet.nextExecutableTxId()).to.eq(txId2);
+        await proveTx(connect(wallet, owner1).execute(txId2));
+      });
+
+      it("Cancelled transactions are skipped", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const cancelTxId = Number(await wallet.transactionCount());
+        const txId = await submitApprovedTx(wallet, getAddress(wallet), encodeCancelFunctionData(cancelTxId + 1));
+        await submitApprovedTx(wallet);
+        const nextTxId = await submitApprovedTx(wallet);
+
+        await proveTx(connect(wallet, owner1).execute(txId));
+        expect(await wallet.nextExecutableTxId()).to.eq(nextTxId);
+        await proveTx(connect(wallet, owner1).execute(nextTxId));
+      });
+
+      it("Transactions executed before the ordered mode is enabled are skipped", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txId = await submitApprovedTx(wallet);
+        await proveTx(connect(wallet, owner1).execute(txId));
+        const txData = encodeConfigureOrderedExecutionFunctionData(true);
+        const configTxId = await submitApprovedTx(wallet, getAddress(wallet), txData);
+
+        expect(await wallet.nextExecutableTxId()).to.eq(configTxId);
+        await proveTx(connect(wallet, owner1).execute(configTxId));
+        expect(await wallet.nextExecutableTxId()).to.eq(configTxId + 1);
+      });
+
+      it("A blocking transaction can be cancelled out of order", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const blockingTxId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        const txId = await submitApprovedTx(wallet);
+        const cancelTxId = await submitApprovedTx(wallet, getAddress(wallet), encodeCancelFunctionData(blockingTxId));
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Pending);
+        expect(await wallet.getTransactionStatus(cancelTxId)).to.eq(TxStatus.Executable);
+
+        await expect(connect(wallet, owner1).execute(cancelTxId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, cancelTxId);
+        expect(await wallet.getTransactionStatus(blockingTxId)).to.eq(TxStatus.Cancelled);
+        expect(await wallet.nextExecutableTxId()).to.eq(txId);
+        await proveTx(connect(wallet, owner1).execute(txId));
+      });
+
+      it("The ordered mode can be disabled out of order", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const blockingTxId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        const txData = encodeConfigureOrderedExecutionFunctionData(false);
+        const configTxId = await submitApprovedTx(wallet, getAddress(wallet), txData);
+
+        await proveTx(connect(wallet, owner1).execute(configTxId));
+        expect(await wallet.orderedExecution()).to.eq(false);
+        expect(await wallet.nextExecutableTxId()).to.eq(blockingTxId);
+      });
+
+      it("The order is applied to a bundle calling the cancellation", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const blockingTxId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(ADDRESS_STUB1, 0, TX_DATA_STUB1));
+        const calls: Call[] = [{ to: getAddress(wallet), value: 0, data: encodeCancelFunctionData(blockingTxId) }];
+        const bundleTxId = blockingTxId + 1;
+        await proveTx(connect(wallet, owner1).submitMulti(calls));
+        await proveTx(connect(wallet, owner1).approve(bundleTxId));
+
+        await expect(connect(wallet, owner2).approveAndExecute(bundleTxId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_OUT_OF_ORDER);
+      });
+
+      it("The order is not applied to unpausing the paused wallet", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithOrderedExecution);
+        const txId = await submitApprovedTx(wallet);
+        await proveTx(connect(wallet, owner1).pause("Reason"));
+        const unpauseTxId = await submitApprovedTx(wallet, getAddress(wallet), encodeUnpauseFunctionData());
+
+        await proveTx(connect(wallet, owner1).execute(unpauseTxId));
+        expect(await wallet.paused()).to.eq(false);
+        expect(await wallet.nextExecutableTxId()).to.eq(txId);
+      });
+    });
+
+    describe("Function 'configureTryExecution()'", () => {
+      it("Correctly changes the try execution status", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        expect(await wallet.tryExecution()).to.eq(false);
+
+        const txData = encodeConfigureTryExecutionFunctionData(true);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_TRY_EXECUTION)
+          .withArgs(true);
+        expect(await wallet.tryExecution()).to.eq(true);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureTryExecution(true))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with try execution", () => {
+      const amount = 234;
+
+      async function deployContractsWithTryExecution(): Promise<{ wallet: Contract; testContractMock: Contract }> {
+        const { wallet, testContractMock } = await deployAllContracts();
+        const txData = encodeConfigureTryExecutionFunctionData(true);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        await proveTx(testContractMock.disable());
+        return { wallet, testContractMock };
+      }
+
+      async function submitApprovedTx(wallet: Contract, to: string, txData: string): Promise<number> {
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(to, 0, txData));
+        await proveTx(connect(wallet, owner2).approve(txId));
+        return txId;
+      }
+
+      it("A failed call marks the transaction as failed and emits the returned data", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployContractsWithTryExecution);
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const txId = await submitApprovedTx(wallet, getAddress(testContractMock), txData);
+
+        const txResponse = connect(wallet, owner1).execute(txId);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE)
+          .withArgs(txId, testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]));
+        await expect(txResponse).not.to.emit(wallet, EVENT_NAME_EXECUTE);
+        expect((await wallet.getTransaction(txId)).executed).to.eq(false);
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Failed);
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_TRANSACTION_FAILED);
+      });
+
+      it("A batch continues past failed transactions and returns the result of each one", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployContractsWithTryExecution);
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const failedTxId = await submitApprovedTx(wallet, getAddress(testContractMock), txData);
+        const txId = await submitApprovedTx(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+        const txIds = [failedTxId, txId];
+
+        expect(await connect(wallet, owner1).executeBatch.staticCall(txIds)).to.deep.eq([false, true]);
+        const txResponse = connect(wallet, owner1).executeBatch(txIds);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE)
+          .withArgs(failedTxId, testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]));
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, txId);
+        expect(await wallet.getTransactionStatus(failedTxId)).to.eq(TxStatus.Failed);
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Executed);
+      });
+
+      it("A failed bundle is reverted entirely and reported with the index of the failed call", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployContractsWithTryExecution);
+        const calls: Call[] = [
+          {
+            to: getAddress(wallet),
+            value: 0,
+            data: encodeConfigureCooldownTimeFunctionData(TWO_HOURS),
+          },
+          {
+            to: getAddress(testContractMock),
+            value: 0,
+            data: testContractMock.interface.encodeFunctionData("testFunction", [amount]),
+          },
+        ];
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitMulti(calls));
+        await proveTx(connect(wallet, owner1).approve(txId));
+        const callError = testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]);
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE)
+          .withArgs(txId, wallet.interface.encodeErrorResult(ERROR_NAME_INTERNAL_CALL_FAILED, [1, callError]));
+        expect(await wallet.cooldownTime()).to.eq(0);
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Failed);
+      });
+
+      it("A failed transfer within the daily limit does not spend the limit", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployContractsWithTryExecution);
+        const walletAddress = getAddress(wallet);
+        await proveTx(user.sendTransaction({ to: walletAddress, value: TX_VALUE_STUB }));
+        await submitApprovedTx(wallet, walletAddress, encodeConfigureDailyLimitFunctionData(TX_VALUE_STUB));
+        await proveTx(connect(wallet, owner1).execute(1));
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(testContractMock), TX_VALUE_STUB, "0x"));
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE)
+          .withArgs(txId, "0x");
+        expect(await wallet.dailyLimitSpent()).to.eq(0);
+        expect(await ethers.provider.getBalance(walletAddress)).to.eq(TX_VALUE_STUB);
+      });
+
+      it("Failed transactions are skipped in the ordered execution mode", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployContractsWithTryExecution);
+        const configTxId = await submitApprovedTx(
+          wallet,
+          getAddress(wallet),
+          encodeConfigureOrderedExecutionFunctionData(true),
+        );
+        await proveTx(connect(wallet, owner1).execute(configTxId));
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const failedTxId = await submitApprovedTx(wallet, getAddress(testContractMock), txData);
+        const txId = await submitApprovedTx(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        await proveTx(connect(wallet, owner1).execute(failedTxId));
+        expect(await wallet.nextExecutableTxId()).to.eq(txId);
+      });
+
+      it("A failed call is reverted when the try execution mode is disabled", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        await proveTx(testContractMock.disable());
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [amount]);
+        const txId = await submitApprovedTx(wallet, getAddress(testContractMock), txData);
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs(testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]));
+      });
+    });
+
+    describe("Function 'configureGasRefund()'", () => {
+      it("Correctly changes the maximum gas price of refunds", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const maxGasPrice = ethers.parseUnits("1", "gwei");
+        expect(await wallet.maxRefundGasPrice()).to.eq(0);
+
+        const txData = encodeConfigureGasRefundFunctionData(maxGasPrice);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await expect(connect(wallet, owner2).approveAndExecute(0))
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_GAS_REFUND)
+          .withArgs(maxGasPrice);
+        expect(await wallet.maxRefundGasPrice()).to.eq(maxGasPrice);
+      });
+
+      it("Is reverted if the caller is not the multi sig wallet itself", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await expect(wallet.configureGasRefund(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+      });
+    });
+
+    describe("Scenarios with gas limits and refunds", () => {
+      const gasLimit = 1_000_000;
+      const maxGasPrice = ethers.parseUnits("1", "gwei");
+
+      async function submitApprovedTxWithGasLimit(wallet: Contract, to: string, txData: string): Promise<number> {
+        const txId = Number(await wallet.transactionCount());
+        const options = getSubmitOptions({ gasLimit });
+        await proveTx(connect(wallet, owner1)[SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE](to, 0, txData, options));
+        await proveTx(connect(wallet, owner2).approve(txId));
+        return txId;
+      }
+
+      async function deployWalletWithGasRefund(): Promise<{ wallet: Contract }> {
+        const { wallet } = await deployWallet();
+        const txData = encodeConfigureGasRefundFunctionData(maxGasPrice);
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        return { wallet };
+      }
+
+      async function configureWallet(wallet: Contract, txData: string) {
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, txData));
+        await proveTx(connect(wallet, owner2).approveAndExecute(txId));
+      }
+
+      async function enableTryExecution(wallet: Contract) {
+        await configureWallet(wallet, encodeConfigureTryExecutionFunctionData(true));
+      }
+
+      function getRefundAmount(wallet: Contract, receipt: TransactionReceipt): bigint {
+        const event = receipt.logs
+          .map(log => wallet.interface.parseLog(log))
+          .find(log => log?.name === EVENT_NAME_REFUND);
+        return event?.args.amount ?? 0n;
+      }
+
+      it("The gas limit is stored on submission with the options", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const options = getSubmitOptions({ gasLimit });
+
+        await expect(connect(wallet, owner1)[SUBMIT_WITH_OPTIONS_SIGNATURE](ADDRESS_STUB1, 0, TX_DATA_STUB1, options))
+          .to.emit(wallet, EVENT_NAME_SUBMIT)
+          .withArgs(owner1.address, 0);
+        await expect(
+          connect(wallet, owner1)[SUBMIT_AND_APPROVE_WITH_OPTIONS_SIGNATURE](ADDRESS_STUB1, 0, TX_DATA_STUB1, options),
+        ).to.emit(wallet, EVENT_NAME_APPROVE).withArgs(owner1.address, 1);
+        expect((await wallet.getTransaction(0)).gasLimit).to.eq(gasLimit);
+        expect((await wallet.getTransaction(1)).gasLimit).to.eq(gasLimit);
+      });
+
+      it("The call of a transaction cannot consume more gas than its gas limit", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const txData = testContractMock.interface.encodeFunctionData("consumeGas");
+        const txId = await submitApprovedTxWithGasLimit(wallet, getAddress(testContractMock), txData);
+
+        await expect(connect(wallet, owner1).execute(txId, { gasLimit: gasLimit * 3 }))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_IS_FAILED)
+          .withArgs("0x");
+      });
+
+      it("The execution is reverted if the caller does not provide enough gas for the gas limit", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const txData = testContractMock.interface.encodeFunctionData("consumeGas");
+        const txId = await submitApprovedTxWithGasLimit(wallet, getAddress(testContractMock), txData);
+
+        await expect(connect(wallet, owner1).execute(txId, { gasLimit: gasLimit * 3 / 10 }))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_GAS);
+      });
+
+      it("The execution is reverted if the caller provides between a half and the full gas limit", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        await enableTryExecution(wallet);
+        const txData = testContractMock.interface.encodeFunctionData("consumeGas");
+        const txId = await submitApprovedTxWithGasLimit(wallet, getAddress(testContractMock), txData);
+        const plainTxId = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        for (const providedGas of [gasLimit / 2, gasLimit * 3 / 4, gasLimit]) {
+          await expect(connect(wallet, owner1).execute(txId, { gasLimit: providedGas }))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_GAS);
+          await expect(connect(wallet, owner1).execute(plainTxId, { gasLimit: providedGas }))
+            .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_GAS);
+        }
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Executable);
+
+        await expect(connect(wallet, owner1).execute(txId, { gasLimit: gasLimit * 3 }))
+          .to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE)
+          .withArgs(txId, "0x");
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Failed);
+      });
+
+      it("A transaction without a gas limit is not marked failed if its call ran out of gas", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        await enableTryExecution(wallet);
+        const txData = testContractMock.interface.encodeFunctionData("consumeGas");
+        const txId = Number(await wallet.transactionCount());
+        await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(testContractMock), 0, txData));
+        await proveTx(connect(wallet, owner2).approve(txId));
+
+        await expect(connect(wallet, owner1).execute(txId, { gasLimit: gasLimit * 3 }))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_GAS);
+        expect(await wallet.getTransactionStatus(txId)).to.eq(TxStatus.Executable);
+      });
+
+      it("The transaction signature covers the gas limit", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        const txId = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        expect(await wallet.getTransactionHash(txId)).to.eq(await hashTransaction(wallet, txId));
+      });
+
+      it("The gas spent is refunded to the executor at the capped gas price", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithGasRefund);
+        await proveTx(user.sendTransaction({ to: getAddress(wallet), value: ethers.parseEther("1") }));
+        const txId = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+        const balanceBefore = await ethers.provider.getBalance(getAddress(wallet));
+
+        const receipt = await proveTx(connect(wallet, owner1).execute(txId, { gasPrice: maxGasPrice * 2n }));
+        const amount = getRefundAmount(wallet, receipt);
+
+        expect(amount).to.be.greaterThan(0);
+        expect(amount % maxGasPrice).to.eq(0);
+        expect(amount).to.be.lessThanOrEqual((receipt.gasUsed + 30_000n) * maxGasPrice);
+        expect(await ethers.provider.getBalance(getAddress(wallet))).to.eq(balanceBefore - amount);
+      });
+
+      it("The refund is capped by the wallet balance", async () => {
+        const { wallet } = await setUpFixture(deployWalletWithGasRefund);
+        await proveTx(user.sendTransaction({ to: getAddress(wallet), value: 1 }));
+        const txId = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.emit(wallet, EVENT_NAME_REFUND)
+          .withArgs(owner1.address, 1);
+        expect(await ethers.provider.getBalance(getAddress(wallet))).to.eq(0);
+      });
+
+      it("The gas spent on a transaction marked as failed is not refunded", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        await configureWallet(wallet, encodeConfigureGasRefundFunctionData(maxGasPrice));
+        await enableTryExecution(wallet);
+        await proveTx(user.sendTransaction({ to: getAddress(wallet), value: ethers.parseEther("1") }));
+        await proveTx(testContractMock.disable());
+        const txData = testContractMock.interface.encodeFunctionData("testFunction", [1]);
+        const txId1 = await submitApprovedTxWithGasLimit(wallet, getAddress(testContractMock), txData);
+        const txId2 = await submitApprovedTxWithGasLimit(wallet, getAddress(testContractMock), txData);
+        const txId3 = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        const txResponse = connect(wallet, owner1).execute(txId1);
+        await expect(txResponse).to.emit(wallet, EVENT_NAME_EXECUTION_FAILURE);
+        await expect(txResponse).not.to.emit(wallet, EVENT_NAME_REFUND);
+
+        // Only the gas of the successful transaction is refunded in a batch
+        const receipt = await proveTx(connect(wallet, owner1).executeBatch([txId2, txId3], { gasPrice: maxGasPrice }));
+        const amount = getRefundAmount(wallet, receipt);
+        expect(amount).to.be.greaterThan(0);
+        expect(amount).to.be.lessThan(receipt.gasUsed * maxGasPrice);
+        expect(await wallet.getTransactionStatus(txId2)).to.eq(TxStatus.Failed);
+        expect(await wallet.getTransactionStatus(txId3)).to.eq(TxStatus.Executed);
+      });
+
+      it("The gas spent is not refunded if refunds are disabled", async () => {
+        const { wallet } = await setUpFixture(deployWallet);
+        await proveTx(user.sendTransaction({ to: getAddress(wallet), value: ethers.parseEther("1") }));
+        const txId = await submitApprovedTxWithGasLimit(wallet, ADDRESS_STUB1, TX_DATA_STUB1);
+
+        await expect(connect(wallet, owner1).execute(txId)).not.to.emit(wallet, EVENT_NAME_REFUND);
+      });
+    });
+
     describe("Scenarios with sending transactions to another contract", () => {
       async function beforeExecution(params: { functionName: string; txValue: number }): Promise<{
         wallet: Contract;
@@ -1226,6 +4174,22 @@ describe("MultiSigWallet contract", () => {
             [-tx.value, tx.value],
           );
         });
+
+        it("The function of another contract returns data", async () => {
+          const { wallet, testContractMock, tx, amount } = await beforeExecution({
+            functionName: "testFunction",
+            txValue: 0,
+          });
+          const expectedResult = testContractMock.interface.encodeFunctionResult("testFunction", [amount]);
+
+          const actualResult = await connect(wallet, owner2).approveAndExecute.staticCall(tx.id);
+          expect(actualResult).to.eq(expectedResult);
+          expect(decodeExecutionResult(testContractMock.interface, tx.data, actualResult)).to.deep.eq([amount]);
+
+          await expect(connect(wallet, owner2).approveAndExecute(tx.id))
+            .to.emit(wallet, EVENT_NAME_EXECUTE_RESULT)
+            .withArgs(tx.id, ethers.keccak256(expectedResult));
+        });
       });
 
       describe("Function 'approveAndExecute()' is reverted if", () => {
@@ -1270,5 +4234,160 @@ describe("MultiSigWallet contract", () => {
         });
       });
     });
+
+    describe("Scenarios with bundle transactions", () => {
+      const amount = 234;
+
+      async function prepareBundle(): Promise<{
+        wallet: Contract;
+        testContractMock: Contract;
+        calls: Call[];
+      }> {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const testContractMockAddress = getAddress(testContractMock);
+        const calls: Call[] = [
+          {
+            to: getAddress(wallet),
+            value: 0,
+            data: encodeConfigureCooldownTimeFunctionData(TWO_HOURS),
+          },
+          {
+            to: testContractMockAddress,
+            value: TX_VALUE_STUB,
+            data: testContractMock.interface.encodeFunctionData("testFunction", [amount]),
+          },
+        ];
+        await proveTx(owner1.sendTransaction({ to: getAddress(wallet), value: TX_VALUE_STUB }));
+        await proveTx(connect(wallet, owner1).submitMulti(calls));
+        await proveTx(connect(wallet, owner1).approve(0));
+
+        return { wallet, testContractMock, calls };
+      }
+
+      it("All calls of a bundle are executed in order within a single transaction", async () => {
+        const { wallet, testContractMock } = await prepareBundle();
+        const txId = 0;
+
+        const txResponse = connect(wallet, owner2).approveAndExecute(txId);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner2.address, txId);
+        await expect(txResponse)
+          .to.emit(wallet, EVENT_NAME_CONFIGURE_COOLDOWN_TIME)
+          .withArgs(TWO_HOURS);
+        await expect(txResponse)
+          .to.emit(testContractMock, EVENT_NAME_TEST)
+          .withArgs(getAddress(wallet), TX_VALUE_STUB, amount);
+        await expect(txResponse).to.changeEtherBalances(
+          [wallet, testContractMock],
+          [-TX_VALUE_STUB, TX_VALUE_STUB],
+        );
+        expect(await wallet.cooldownTime()).to.eq(TWO_HOURS);
+      });
+
+      it("A bundle is reverted entirely with the index of the failed call", async () => {
+        const { wallet, testContractMock } = await prepareBundle();
+        await proveTx(testContractMock.disable());
+        const txId = 0;
+
+        await expect(connect(wallet, owner2).approveAndExecute(txId))
+          .to.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_CALL_FAILED)
+          .withArgs(1, testContractMock.interface.encodeErrorResult("TestError", ["Contract is disabled"]));
+        expect(await wallet.cooldownTime()).to.eq(0);
+        expect((await wallet.getTransaction(txId)).executed).to.eq(false);
+      });
+
+      it("The policies of the wallet itself are not applied to a bundle as a whole", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const walletAddress = getAddress(wallet);
+        const policy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: 0 };
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          walletAddress,
+          0,
+          encodeConfigureDestinationPolicyFunctionData(walletAddress, policy),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        const calls: Call[] = [{
+          to: getAddress(testContractMock),
+          value: 0,
+          data: testContractMock.interface.encodeFunctionData("testFunction", [amount]),
+        }];
+
+        await proveTx(connect(wallet, owner1).submitMulti(calls));
+        await proveTx(connect(wallet, owner1).approve(1));
+        expect(await wallet.getRequiredApprovals(1)).to.eq(REQUIRED_APPROVALS);
+        await expect(connect(wallet, owner1).execute(1))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+      });
+
+      it("A bundle requires the maximum approvals and cooldown of the policies of its calls", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const walletAddress = getAddress(wallet);
+        const cooldownTime = ONE_DAY * 7;
+        const policy: Policy = { enabled: true, requiredApprovals: 3, cooldownTime };
+        const selector = encodeConfigureOwnersFunctionData(ownerAddresses, REQUIRED_APPROVALS).slice(0, 10);
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          walletAddress,
+          0,
+          encodeConfigureSelectorPolicyFunctionData(walletAddress, selector, policy),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        const calls: Call[] = [
+          {
+            to: getAddress(testContractMock),
+            value: 0,
+            data: testContractMock.interface.encodeFunctionData("testFunction", [amount]),
+          },
+          {
+            to: walletAddress,
+            value: 0,
+            data: encodeConfigureOwnersFunctionData([owner1.address, owner2.address], 1),
+          },
+        ];
+        const txId = 1;
+
+        const timestamp = await getTxTimestamp(connect(wallet, owner1).submitMulti(calls));
+        expect((await wallet.getTransaction(txId)).cooldown).to.eq(timestamp + cooldownTime);
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(3);
+        await proveTx(connect(wallet, owner1).approve(txId));
+        await proveTx(connect(wallet, owner2).approve(txId));
+        await increaseBlockTimestamp(cooldownTime);
+
+        await expect(connect(wallet, owner1).execute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_NOT_ENOUGH_APPROVALS);
+        await expect(connect(wallet, owner3).approveAndExecute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner3.address, txId);
+        expect(await wallet.owners()).to.deep.eq([owner1.address, owner2.address]);
+      });
+
+      it("A bundle is submitted with the cooldown of a policy of its calls", async () => {
+        const { wallet, testContractMock } = await setUpFixture(deployAllContracts);
+        const testContractMockAddress = getAddress(testContractMock);
+        const policy: Policy = { enabled: true, requiredApprovals: 1, cooldownTime: TWO_HOURS };
+        await proveTx(connect(wallet, owner1).submitAndApprove(
+          getAddress(wallet),
+          0,
+          encodeConfigureDestinationPolicyFunctionData(testContractMockAddress, policy),
+        ));
+        await proveTx(connect(wallet, owner2).approveAndExecute(0));
+        const calls: Call[] = [{
+          to: testContractMockAddress,
+          value: 0,
+          data: testContractMock.interface.encodeFunctionData("testFunction", [amount]),
+        }];
+        const txId = 1;
+
+        const timestamp = await getTxTimestamp(connect(wallet, owner1).submitMulti(calls));
+        expect((await wallet.getTransaction(txId)).cooldown).to.eq(timestamp + TWO_HOURS);
+        expect(await wallet.getRequiredApprovals(txId)).to.eq(1);
+        await expect(connect(wallet, owner1).approveAndExecute(txId))
+          .to.be.revertedWithCustomError(wallet, ERROR_NAME_COOLDOWN_NOT_ENDED);
+        await increaseBlockTimestamp(TWO_HOURS);
+        await expect(connect(wallet, owner1).approveAndExecute(txId))
+          .to.emit(wallet, EVENT_NAME_EXECUTE)
+          .withArgs(owner1.address, txId);
+      });
+    });
   });
 });
@@ -1,54 +1,137 @@
-import { ethers } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { Contract, ContractFactory } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { setUpFixture } from "../test-utils/common";
+import { connect, getAddress, proveTx } from "../test-utils/eth";
+import { predictWalletAddress } from "../test-utils/factory";
+import { getWalletContractFactory } from "../test-utils/wallet";
 
 describe("Contract 'MultiSigWalletFactory'", () => {
   const ADDRESS_ZERO = ethers.ZeroAddress;
   const REQUIRED_APPROVALS = 2;
   const DEFAULT_EXPIRATION_TIME = 3600 * 24 * 10;
+  const SALT_STUB = ethers.id("Some salt");
 
   const EVENT_NAME_NEW_WALLET_DEPLOYED_BY_FACTORY = "NewWallet";
+  const EVENT_NAME_WALLET_OWNERS_UPDATED = "WalletOwnersUpdated";
+
+  const WALLET_KIND_CLONE = 0;
+  const WALLET_KIND_PROXY = 1;
 
   const ERROR_NAME_DUPLICATE_OWNER_ADDRESS = "DuplicateOwnerAddress";
   const ERROR_NAME_EMPTY_OWNERS_ARRAY = "EmptyOwnersArray";
+  const ERROR_NAME_INTERNAL_TRANSACTION_FAILED = "InternalTransactionFailed";
   const ERROR_NAME_INVALID_REQUIRED_APPROVALS = "InvalidRequiredApprovals";
+  const ERROR_NAME_WALLET_NOT_REGISTERED = "WalletNotRegistered";
+  const ERROR_NAME_ZERO_IMPLEMENTATION_ADDRESS = "ZeroImplementationAddress";
   const ERROR_NAME_ZERO_OWNER_ADDRESS = "ZeroOwnerAddress";
 
-  let walletFactory: ContractFactory;
+  let walletUpgradeableFactory: ContractFactory;
   let factoryContractFactory: ContractFactory;
 
+  let deployer: HardhatEthersSigner;
   let owner1: HardhatEthersSigner;
   let owner2: HardhatEthersSigner;
   let owner3: HardhatEthersSigner;
+  let owner4: HardhatEthersSigner;
 
   let ownerAddresses: string[];
 
   before(async () => {
-    [, owner1, owner2, owner3] = await ethers.getSigners();
+    [deployer, owner1, owner2, owner3, owner4] = await ethers.getSigners();
     ownerAddresses = [owner1.address, owner2.address, owner3.address];
-    walletFactory = await ethers.getContractFactory("MultiSigWallet");
+    walletUpgradeableFactory = await getWalletContractFactory("MultiSigWalletUpgradeable");
     factoryContractFactory = await ethers.getContractFactory("MultiSigWalletFactory");
   });
 
-  async function deployFactory(): Promise<{ factory: Contract }> {
-    const factory = await factoryContractFactory.deploy() as Contract;
+  function encodeUpgradeFunctionData(newImplementationAddress: string) {
+    return walletUpgradeableFactory.interface.encodeFunctionData("upgradeTo", [newImplementationAddress]);
+  }
+
+  function encodeConfigureOwnersFunctionData(newOwners: string[], newRequiredApprovals: number) {
+    return walletUpgradeableFactory.interface.encodeFunctionData(
+      "configureOwners",
+      [newOwners, newRequiredApprovals],
+    );
+  }
+
+  function encodeConfigureRegistryFunctionData(newRegistry: string) {
+    return walletUpgradeableFactory.interface.encodeFunctionData("configureRegistry", [newRegistry]);
+  }
+
+  async function executeSelfCall(wallet: Contract, data: string) {
+    const txId = await wallet.transactionCount();
+    await proveTx(connect(wallet, owner1).submitAndApprove(getAddress(wallet), 0, data));
+    return connect(wallet, owner2).approveAndExecute(txId);
+  }
+
+  async function deployFactory(): Promise<{ factory: Contract; walletImplementation: Contract }> {
+    const walletImplementation = await walletUpgradeableFactory.deploy() as Contract;
+    await walletImplementation.waitForDeployment();
+
+    const factory = await factoryContractFactory.deploy(getAddress(walletImplementation)) as Contract;
     await factory.waitForDeployment();
+
     return {
       factory,
+      walletImplementation,
     };
   }
 
+  async function deployFactoryAndCloneWallet(): Promise<{ factory: Contract; wallet: Contract }> {
+    const { factory } = await deployFactory();
+    await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+    const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", await factory.wallets(0));
+
+    return {
+      factory,
+      wallet,
+    };
+  }
+
+  async function deployFactoryAndProxyWallet(): Promise<{ factory: Contract; wallet: Contract }> {
+    const { factory } = await deployFactory();
+    await proveTx(factory.deployNewProxyWallet(ownerAddresses, REQUIRED_APPROVALS));
+    const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", await factory.wallets(0));
+
+    return {
+      factory,
+      wallet,
+    };
+  }
+
+  describe("Constructor", () => {
+    it("Registers the wallet implementation as expected", async () => {
+      const { factory, walletImplementation } = await setUpFixture(deployFactory);
+
+      expect(await factory.walletImplementation()).to.eq(getAddress(walletImplementation));
+      expect(await factory.walletsCount()).to.eq(0);
+    });
+
+    it("Is reverted if the implementation address is zero", async () => {
+      await expect(factoryContractFactory.deploy(ADDRESS_ZERO))
+        .to.be.revertedWithCustomError(factoryContractFactory, ERROR_NAME_ZERO_IMPLEMENTATION_ADDRESS);
+    });
+  });
+
   describe("Function 'deployNewWallet()'", () => {
-    it("Creates new wallet instance with selected parameters", async () => {
+    it("Creates new wallet clone with selected parameters", async () => {
       const { factory } = await setUpFixture(deployFactory);
 
-      await expect(await factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS))
-        .to.emit(factory, EVENT_NAME_NEW_WALLET_DEPLOYED_BY_FACTORY);
-
+      const tx = factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS);
+      await proveTx(tx);
       const walletAddress = await factory.wallets(0);
-      const wallet = await ethers.getContractAt("MultiSigWallet", walletAddress);
+      await expect(tx)
+        .to.emit(factory, EVENT_NAME_NEW_WALLET_DEPLOYED_BY_FACTORY)
+        .withArgs(deployer.address, walletAddress, 0, WALLET_KIND_CLONE);
+      await expect(tx)
+        .to.emit(factory, EVENT_NAME_WALLET_OWNERS_UPDATED)
+        .withArgs(walletAddress, ownerAddresses);
+
+      const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", walletAddress);
+      expect(await wallet.registry()).to.eq(getAddress(factory));
+      expect(await factory.isWallet(walletAddress)).to.eq(true);
       expect(await wallet.owners()).to.deep.eq(ownerAddresses);
       expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
       expect(await wallet.transactionCount()).to.eq(0);
@@ -60,7 +143,7 @@ describe("Contract 'MultiSigWalletFactory'", () => {
       const { factory } = await setUpFixture(deployFactory);
 
       await expect(factory.deployNewWallet([], REQUIRED_APPROVALS))
-        .to.be.revertedWithCustomError(walletFactory, ERROR_NAME_EMPTY_OWNERS_ARRAY);
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_EMPTY_OWNERS_ARRAY);
     });
 
     it("Is reverted if the input number of required approvals is zero", async () => {
@@ -68,7 +151,7 @@ describe("Contract 'MultiSigWalletFactory'", () => {
 
       const requiredApprovals = 0;
       await expect(factory.deployNewWallet(ownerAddresses, requiredApprovals))
-        .to.be.revertedWithCustomError(walletFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
     });
 
     it("Is reverted if the number of required approvals exceeds the length of the owner array", async () => {
@@ -76,7 +159,7 @@ describe("Contract 'MultiSigWalletFactory'", () => {
 
       const requiredApprovals = ownerAddresses.length + 1;
       await expect(factory.deployNewWallet(ownerAddresses, requiredApprovals))
-        .to.be.revertedWithCustomError(walletFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
     });
 
     it("Is reverted if one of the input owners is the zero address", async () => {
@@ -85,7 +168,7 @@ describe("Contract 'MultiSigWalletFactory'", () => {
       const requiredApprovals = ownerAddressArray.length - 1;
 
       await expect(factory.deployNewWallet(ownerAddressArray, requiredApprovals))
-        .to.be.revertedWithCustomError(walletFactory, ERROR_NAME_ZERO_OWNER_ADDRESS);
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_ZERO_OWNER_ADDRESS);
     });
 
     it("Deployment is reverted if there is a duplicate address in the input owner array", async () => {
@@ -93,7 +176,93 @@ describe("Contract 'MultiSigWalletFactory'", () => {
       const ownerAddressArray = [ownerAddresses[0], ownerAddresses[1], ownerAddresses[0]];
       const requiredApprovals = ownerAddresses.length - 1;
       await expect(factory.deployNewWallet(ownerAddressArray, requiredApprovals))
-        .to.be.revertedWithCustomError(walletFactory, ERROR_NAME_DUPLICATE_OWNER_ADDRESS);
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_DUPLICATE_OWNER_ADDRESS);
+    });
+  });
+
+  describe("Function 'deployNewProxyWallet()'", () => {
+    it("Creates new upgradeable proxy wallet with selected parameters", async () => {
+      const { factory, walletImplementation } = await setUpFixture(deployFactory);
+
+      const tx = factory.deployNewProxyWallet(ownerAddresses, REQUIRED_APPROVALS);
+      await proveTx(tx);
+      const walletAddress = await factory.wallets(0);
+      await expect(tx)
+        .to.emit(factory, EVENT_NAME_NEW_WALLET_DEPLOYED_BY_FACTORY)
+        .withArgs(deployer.address, walletAddress, 0, WALLET_KIND_PROXY);
+
+      const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", walletAddress);
+      expect(await wallet.registry()).to.eq(getAddress(factory));
+      expect(await factory.isWallet(walletAddress)).to.eq(true);
+      expect(await factory.getWalletsByOwner(owner1.address, 0, 1)).to.deep.eq([walletAddress]);
+      expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+      expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
+      expect(await wallet.transactionCount()).to.eq(0);
+      expect(await wallet.cooldownTime()).to.eq(0);
+      expect(await wallet.expirationTime()).to.eq(DEFAULT_EXPIRATION_TIME);
+      expect(await upgrades.erc1967.getImplementationAddress(walletAddress)).to.eq(getAddress(walletImplementation));
+    });
+
+    it("Is reverted if the wallet parameters are invalid", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+
+      await expect(factory.deployNewProxyWallet([], REQUIRED_APPROVALS))
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_EMPTY_OWNERS_ARRAY);
+      await expect(factory.deployNewProxyWallet(ownerAddresses, 0))
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
+    });
+  });
+
+  describe("Functions 'deployNewWalletDeterministic()' and 'predictWalletAddress()'", () => {
+    it("Creates new wallet clone at the predicted address", async () => {
+      const { factory, walletImplementation } = await setUpFixture(deployFactory);
+      const factoryAddress = getAddress(factory);
+      const expectedAddress = predictWalletAddress(
+        factoryAddress,
+        getAddress(walletImplementation),
+        ownerAddresses,
+        REQUIRED_APPROVALS,
+        SALT_STUB,
+      );
+      expect(await factory.predictWalletAddress(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB)).to.eq(expectedAddress);
+
+      await expect(factory.deployNewWalletDeterministic(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB))
+        .to.emit(factory, EVENT_NAME_NEW_WALLET_DEPLOYED_BY_FACTORY)
+        .withArgs(deployer.address, expectedAddress, 0, WALLET_KIND_CLONE);
+
+      expect(await factory.wallets(0)).to.eq(expectedAddress);
+      const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", expectedAddress);
+      expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+      expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
+    });
+
+    it("Predicts different addresses for different salts or parameters", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      const address = await factory.predictWalletAddress(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB);
+
+      expect(await factory.predictWalletAddress(ownerAddresses, REQUIRED_APPROVALS, ethers.ZeroHash))
+        .not.to.eq(address);
+      expect(await factory.predictWalletAddress(ownerAddresses, REQUIRED_APPROVALS + 1, SALT_STUB))
+        .not.to.eq(address);
+      expect(await factory.predictWalletAddress([owner1.address], 1, SALT_STUB))
+        .not.to.eq(address);
+    });
+
+    it("Is reverted if a wallet with the same parameters and salt is already deployed", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      await factory.deployNewWalletDeterministic(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB);
+
+      await expect(factory.deployNewWalletDeterministic(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB))
+        .to.be.reverted;
+    });
+
+    it("Is reverted if the wallet parameters are invalid", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+
+      await expect(factory.deployNewWalletDeterministic([], REQUIRED_APPROVALS, SALT_STUB))
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_EMPTY_OWNERS_ARRAY);
+      await expect(factory.deployNewWalletDeterministic(ownerAddresses, 0, SALT_STUB))
+        .to.be.revertedWithCustomError(walletUpgradeableFactory, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
     });
   });
 
@@ -104,6 +273,164 @@ describe("Contract 'MultiSigWalletFactory'", () => {
       expect(await factory.walletsCount()).to.eq(0);
       await factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS);
       expect(await factory.walletsCount()).to.eq(1);
+      await factory.deployNewProxyWallet(ownerAddresses, REQUIRED_APPROVALS);
+      expect(await factory.walletsCount()).to.eq(2);
+    });
+  });
+
+  describe("Functions 'getWalletsByDeployer()' and 'walletsByDeployerCount()'", () => {
+    it("Return the wallets of a deployer page by page in the order of deployment", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(connect(factory, owner1).deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(factory.deployNewProxyWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(factory.deployNewWalletDeterministic(ownerAddresses, REQUIRED_APPROVALS, SALT_STUB));
+      const deployerWallets = [await factory.wallets(0), await factory.wallets(2), await factory.wallets(3)];
+
+      expect(await factory.walletsByDeployerCount(deployer.address)).to.eq(3);
+      expect(await factory.walletsByDeployerCount(owner1.address)).to.eq(1);
+      expect(await factory.walletsByDeployerCount(owner2.address)).to.eq(0);
+
+      expect(await factory.getWalletsByDeployer(deployer.address, 0, 10)).to.deep.eq(deployerWallets);
+      expect(await factory.getWalletsByDeployer(deployer.address, 0, 2)).to.deep.eq(deployerWallets.slice(0, 2));
+      expect(await factory.getWalletsByDeployer(deployer.address, 2, 2)).to.deep.eq(deployerWallets.slice(2));
+      expect(await factory.getWalletsByDeployer(owner1.address, 0, 10)).to.deep.eq([await factory.wallets(1)]);
+    });
+
+    it("Return an empty array if the offset is out of range or the limit is zero", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+
+      expect(await factory.getWalletsByDeployer(deployer.address, 1, 10)).to.deep.eq([]);
+      expect(await factory.getWalletsByDeployer(deployer.address, 0, 0)).to.deep.eq([]);
+      expect(await factory.getWalletsByDeployer(owner1.address, 0, 10)).to.deep.eq([]);
+    });
+  });
+
+  describe("Functions 'getWalletsByOwner()' and 'walletsByOwnerCount()'", () => {
+    it("Return the wallets of an owner page by page", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(factory.deployNewProxyWallet([owner1.address, owner4.address], 1));
+      const wallet1 = await factory.wallets(0);
+      const wallet2 = await factory.wallets(1);
+
+      expect(await factory.walletsByOwnerCount(owner1.address)).to.eq(2);
+      expect(await factory.walletsByOwnerCount(owner2.address)).to.eq(1);
+      expect(await factory.walletsByOwnerCount(owner4.address)).to.eq(1);
+      expect(await factory.walletsByOwnerCount(deployer.address)).to.eq(0);
+
+      expect(await factory.getWalletsByOwner(owner1.address, 0, 10)).to.deep.eq([wallet1, wallet2]);
+      expect(await factory.getWalletsByOwner(owner1.address, 1, 1)).to.deep.eq([wallet2]);
+      expect(await factory.getWalletsByOwner(owner3.address, 0, 10)).to.deep.eq([wallet1]);
+      expect(await factory.getWalletsByOwner(owner4.address, 0, 10)).to.deep.eq([wallet2]);
+      expect(await factory.getWalletsByOwner(owner1.address, 2, 10)).to.deep.eq([]);
+      expect(await factory.getWalletsByOwner(owner1.address, 0, 0)).to.deep.eq([]);
+    });
+  });
+
+  describe("Function 'notifyOwnersConfigured()'", () => {
+    it("Is reverted if the caller is not a wallet deployed by the factory", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+
+      await expect(factory.notifyOwnersConfigured())
+        .to.be.revertedWithCustomError(factory, ERROR_NAME_WALLET_NOT_REGISTERED);
+    });
+  });
+
+  describe("Scenarios with wallet owner changes", () => {
+    it("The owner index is updated when the owners of a clone wallet are configured", async () => {
+      const { factory, wallet } = await setUpFixture(deployFactoryAndCloneWallet);
+      const walletAddress = getAddress(wallet);
+      const newOwners = [owner1.address, owner4.address];
+
+      await expect(executeSelfCall(wallet, encodeConfigureOwnersFunctionData(newOwners, 1)))
+        .to.emit(factory, EVENT_NAME_WALLET_OWNERS_UPDATED)
+        .withArgs(walletAddress, newOwners);
+
+      expect(await factory.getWalletsByOwner(owner1.address, 0, 10)).to.deep.eq([walletAddress]);
+      expect(await factory.getWalletsByOwner(owner2.address, 0, 10)).to.deep.eq([]);
+      expect(await factory.getWalletsByOwner(owner3.address, 0, 10)).to.deep.eq([]);
+      expect(await factory.getWalletsByOwner(owner4.address, 0, 10)).to.deep.eq([walletAddress]);
+    });
+
+    it("The owner index is updated when a single owner of a proxy wallet is changed", async () => {
+      const { factory, wallet } = await setUpFixture(deployFactoryAndProxyWallet);
+      const walletAddress = getAddress(wallet);
+      const replaceOwnerData = walletUpgradeableFactory.interface.encodeFunctionData(
+        "replaceOwner",
+        [owner2.address, owner4.address],
+      );
+
+      await expect(executeSelfCall(wallet, replaceOwnerData))
+        .to.emit(factory, EVENT_NAME_WALLET_OWNERS_UPDATED)
+        .withArgs(walletAddress, [owner1.address, owner4.address, owner3.address]);
+
+      expect(await factory.walletsByOwnerCount(owner2.address)).to.eq(0);
+      expect(await factory.getWalletsByOwner(owner4.address, 0, 10)).to.deep.eq([walletAddress]);
+    });
+
+    it("The owner index keeps other wallets of a removed owner", async () => {
+      const { factory } = await setUpFixture(deployFactory);
+      await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(factory.deployNewProxyWallet(ownerAddresses, REQUIRED_APPROVALS));
+      await proveTx(factory.deployNewWallet(ownerAddresses, REQUIRED_APPROVALS));
+      const walletAddresses = [await factory.wallets(0), await factory.wallets(1), await factory.wallets(2)];
+      const wallet = await ethers.getContractAt("MultiSigWalletUpgradeable", walletAddresses[0]);
+
+      await proveTx(executeSelfCall(wallet, encodeConfigureOwnersFunctionData([owner1.address, owner2.address], 2)));
+
+      expect(await factory.walletsByOwnerCount(owner3.address)).to.eq(2);
+      expect(await factory.getWalletsByOwner(owner3.address, 0, 10))
+        .to.deep.eq([walletAddresses[2], walletAddresses[1]]);
+      expect([...await factory.getWalletsByOwner(owner1.address, 0, 10)]).to.have.members(walletAddresses);
+    });
+
+    it("The owner index is not updated if the wallet registry is reset", async () => {
+      const { factory, wallet } = await setUpFixture(deployFactoryAndProxyWallet);
+      const walletAddress = getAddress(wallet);
+      await proveTx(executeSelfCall(wallet, encodeConfigureRegistryFunctionData(ADDRESS_ZERO)));
+
+      await expect(executeSelfCall(wallet, encodeConfigureOwnersFunctionData([owner4.address], 1)))
+        .not.to.emit(factory, EVENT_NAME_WALLET_OWNERS_UPDATED);
+
+      expect(await factory.getWalletsByOwner(owner1.address, 0, 10)).to.deep.eq([walletAddress]);
+      expect(await factory.walletsByOwnerCount(owner4.address)).to.eq(0);
+    });
+  });
+
+  describe("Scenarios with wallet upgrades", () => {
+    it("A proxy wallet is upgraded through its own transaction", async () => {
+      const { wallet } = await setUpFixture(deployFactoryAndProxyWallet);
+      const walletAddress = getAddress(wallet);
+
+      const newImplementation = await walletUpgradeableFactory.deploy() as Contract;
+      await newImplementation.waitForDeployment();
+
+      await proveTx(connect(wallet, owner1).submitAndApprove(
+        walletAddress, // to
+        0, // value
+        encodeUpgradeFunctionData(getAddress(newImplementation)), // data
+      ));
+      await proveTx(connect(wallet, owner2).approveAndExecute(0));
+
+      expect(await upgrades.erc1967.getImplementationAddress(walletAddress)).to.eq(getAddress(newImplementation));
+    });
+
+    it("A clone wallet cannot be upgraded", async () => {
+      const { wallet } = await setUpFixture(deployFactoryAndCloneWallet);
+      const walletAddress = getAddress(wallet);
+
+      const newImplementation = await walletUpgradeableFactory.deploy() as Contract;
+      await newImplementation.waitForDeployment();
+
+      await proveTx(connect(wallet, owner1).submitAndApprove(
+        walletAddress, // to
+        0, // value
+        encodeUpgradeFunctionData(getAddress(newImplementation)), // data
+      ));
+      await expect(connect(wallet, owner2).approveAndExecute(0))
+        .to.be.revertedWithCustomError(wallet, ERROR_NAME_INTERNAL_TRANSACTION_FAILED);
     });
   });
 });
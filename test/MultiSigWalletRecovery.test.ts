@@ -0,0 +1,460 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract, ContractFactory } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setUpFixture } from "../test-utils/common";
+import { connect, getAddress, getTxTimestamp, increaseBlockTimestamp, proveTx } from "../test-utils/eth";
+import { getWalletContractFactory } from "../test-utils/wallet";
+
+describe("Contract 'MultiSigWalletRecovery'", () => {
+  const ADDRESS_ZERO = ethers.ZeroAddress;
+  const REQUIRED_APPROVALS = 2;
+  const REQUIRED_GUARDIAN_APPROVALS = 2;
+  const ONE_DAY = 3600 * 24;
+  const RECOVERY_DELAY = ONE_DAY * 7;
+
+  const EVENT_NAME_APPROVE_RECOVERY = "ApproveRecovery";
+  const EVENT_NAME_APPROVE_RECOVERY_CANCELLATION = "ApproveRecoveryCancellation";
+  const EVENT_NAME_CANCEL_RECOVERY = "CancelRecovery";
+  const EVENT_NAME_CONFIGURE_OWNERS = "ConfigureOwners";
+  const EVENT_NAME_CONFIGURE_RECOVERY = "ConfigureRecovery";
+  const EVENT_NAME_EXECUTE_RECOVERY = "ExecuteRecovery";
+  const EVENT_NAME_EXECUTION_FROM_MODULE_SUCCESS = "ExecutionFromModuleSuccess";
+  const EVENT_NAME_PROPOSE_RECOVERY = "ProposeRecovery";
+  const EVENT_NAME_VETO_RECOVERY = "VetoRecovery";
+
+  const ERROR_NAME_DUPLICATE_OWNER_ADDRESS = "DuplicateOwnerAddress";
+  const ERROR_NAME_EMPTY_OWNERS_ARRAY = "EmptyOwnersArray";
+  const ERROR_NAME_INVALID_GUARDIANS = "InvalidGuardians";
+  const ERROR_NAME_INVALID_RECOVERY_DELAY = "InvalidRecoveryDelay";
+  const ERROR_NAME_INVALID_REQUIRED_APPROVALS = "InvalidRequiredApprovals";
+  const ERROR_NAME_INVALID_REQUIRED_GUARDIAN_APPROVALS = "InvalidRequiredGuardianApprovals";
+  const ERROR_NAME_NOT_ENOUGH_GUARDIAN_APPROVALS = "NotEnoughGuardianApprovals";
+  const ERROR_NAME_RECOVERY_ALREADY_APPROVED = "RecoveryAlreadyApproved";
+  const ERROR_NAME_RECOVERY_ALREADY_PENDING = "RecoveryAlreadyPending";
+  const ERROR_NAME_RECOVERY_CANCELLATION_ALREADY_APPROVED = "RecoveryCancellationAlreadyApproved";
+  const ERROR_NAME_RECOVERY_DELAY_NOT_ENDED = "RecoveryDelayNotEnded";
+  const ERROR_NAME_RECOVERY_FAILED = "RecoveryFailed";
+  const ERROR_NAME_RECOVERY_NOT_PENDING = "RecoveryNotPending";
+  const ERROR_NAME_UNAUTHORIZED_CALLER = "UnauthorizedCaller";
+  const ERROR_NAME_ZERO_OWNER_ADDRESS = "ZeroOwnerAddress";
+
+  let walletFactory: ContractFactory;
+  let recoveryFactory: ContractFactory;
+
+  let deployer: HardhatEthersSigner;
+  let owner1: HardhatEthersSigner;
+  let owner2: HardhatEthersSigner;
+  let owner3: HardhatEthersSigner;
+  let guardian1: HardhatEthersSigner;
+  let guardian2: HardhatEthersSigner;
+  let guardian3: HardhatEthersSigner;
+  let newOwner1: HardhatEthersSigner;
+  let newOwner2: HardhatEthersSigner;
+
+  let ownerAddresses: string[];
+  let guardianAddresses: string[];
+  let newOwnerAddresses: string[];
+
+  before(async () => {
+    [deployer, owner1, owner2, owner3, guardian1, guardian2, guardian3, newOwner1, newOwner2] =
+      await ethers.getSigners();
+    ownerAddresses = [owner1.address, owner2.address, owner3.address];
+    guardianAddresses = [guardian1.address, guardian2.address, guardian3.address];
+    newOwnerAddresses = [newOwner1.address, newOwner2.address];
+    walletFactory = await getWalletContractFactory("MultiSigWallet");
+    recoveryFactory = await ethers.getContractFactory("MultiSigWalletRecovery");
+  });
+
+  async function executeSelfCalls(wallet: Contract, calls: { to: string; value: number; data: string }[]) {
+    const txId = await wallet.transactionCount();
+    await proveTx(connect(wallet, owner1).submitMulti(calls));
+    await proveTx(connect(wallet, owner1).approve(txId));
+    return connect(wallet, owner2).approveAndExecute(txId);
+  }
+
+  async function deployContracts(): Promise<{ wallet: Contract; recovery: Contract }> {
+    const wallet = await walletFactory.deploy(ownerAddresses, REQUIRED_APPROVALS) as Contract;
+    await wallet.waitForDeployment();
+    const recovery = await recoveryFactory.deploy() as Contract;
+    await recovery.waitForDeployment();
+
+    return {
+      wallet,
+      recovery,
+    };
+  }
+
+  async function deployAndConfigureContracts(): Promise<{ wallet: Contract; recovery: Contract }> {
+    const { wallet, recovery } = await deployContracts();
+    await proveTx(executeSelfCalls(wallet, [
+      {
+        to: getAddress(wallet),
+        value: 0,
+        data: wallet.interface.encodeFunctionData("enableModule", [getAddress(recovery)]),
+      },
+      {
+        to: getAddress(recovery),
+        value: 0,
+        data: recovery.interface.encodeFunctionData(
+          "configureRecovery",
+          [guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, RECOVERY_DELAY],
+        ),
+      },
+    ]));
+
+    return {
+      wallet,
+      recovery,
+    };
+  }
+
+  async function proposeAndApproveRecovery(
+    wallet: Contract,
+    recovery: Contract,
+    newRequiredApprovals: number = REQUIRED_APPROVALS,
+  ) {
+    const walletAddress = getAddress(wallet);
+    await proveTx(connect(recovery, guardian1).proposeRecovery(walletAddress, newOwnerAddresses, newRequiredApprovals));
+    await proveTx(connect(recovery, guardian2).approveRecovery(walletAddress));
+  }
+
+  describe("Function 'configureRecovery()'", () => {
+    it("Configures the recovery of the calling wallet as expected", async () => {
+      const { wallet, recovery } = await setUpFixture(deployContracts);
+      const walletAddress = getAddress(wallet);
+      const configureRecoveryData = recovery.interface.encodeFunctionData(
+        "configureRecovery",
+        [guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, RECOVERY_DELAY],
+      );
+
+      await expect(executeSelfCalls(wallet, [{ to: getAddress(recovery), value: 0, data: configureRecoveryData }]))
+        .to.emit(recovery, EVENT_NAME_CONFIGURE_RECOVERY)
+        .withArgs(walletAddress, guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, RECOVERY_DELAY);
+
+      const config = await recovery.getRecoveryConfig(walletAddress);
+      expect(config.guardians).to.deep.eq(guardianAddresses);
+      expect(config.requiredGuardianApprovals).to.eq(REQUIRED_GUARDIAN_APPROVALS);
+      expect(config.delay).to.eq(RECOVERY_DELAY);
+      expect(await recovery.isGuardian(walletAddress, guardian1.address)).to.eq(true);
+      expect(await recovery.isGuardian(walletAddress, owner1.address)).to.eq(false);
+    });
+
+    it("Replaces the guardians and cancels the pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await proposeAndApproveRecovery(wallet, recovery);
+      const configureRecoveryData = recovery.interface.encodeFunctionData(
+        "configureRecovery",
+        [[guardian3.address], 1, RECOVERY_DELAY],
+      );
+
+      await expect(executeSelfCalls(wallet, [{ to: getAddress(recovery), value: 0, data: configureRecoveryData }]))
+        .to.emit(recovery, EVENT_NAME_CANCEL_RECOVERY)
+        .withArgs(walletAddress, 1);
+      expect((await recovery.getRecovery(walletAddress)).executableAt).to.eq(0);
+      expect(await recovery.isGuardian(walletAddress, guardian1.address)).to.eq(false);
+      expect(await recovery.isGuardian(walletAddress, guardian3.address)).to.eq(true);
+    });
+
+    it("Disables the recovery if the array of guardians is empty", async () => {
+      const { recovery } = await setUpFixture(deployContracts);
+      await proveTx(recovery.configureRecovery(guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, RECOVERY_DELAY));
+
+      await expect(recovery.configureRecovery([], 0, 0))
+        .to.emit(recovery, EVENT_NAME_CONFIGURE_RECOVERY)
+        .withArgs(deployer.address, [], 0, 0);
+      expect(await recovery.isGuardian(deployer.address, guardian1.address)).to.eq(false);
+    });
+
+    it("Is reverted if the guardians contain the zero address or duplicates", async () => {
+      const { recovery } = await setUpFixture(deployContracts);
+      await expect(recovery.configureRecovery([guardian1.address, ADDRESS_ZERO], 1, RECOVERY_DELAY))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_GUARDIANS);
+      await expect(recovery.configureRecovery([guardian1.address, guardian1.address], 1, RECOVERY_DELAY))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_GUARDIANS);
+    });
+
+    it("Is reverted if the number of required guardian approvals is invalid", async () => {
+      const { recovery } = await setUpFixture(deployContracts);
+      await expect(recovery.configureRecovery(guardianAddresses, 0, RECOVERY_DELAY))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_REQUIRED_GUARDIAN_APPROVALS);
+      await expect(recovery.configureRecovery(guardianAddresses, guardianAddresses.length + 1, RECOVERY_DELAY))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_REQUIRED_GUARDIAN_APPROVALS);
+      await expect(recovery.configureRecovery([], 1, RECOVERY_DELAY))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_REQUIRED_GUARDIAN_APPROVALS);
+    });
+
+    it("Is reverted if the delay is less than the minimum one", async () => {
+      const { recovery } = await setUpFixture(deployContracts);
+      const minDelay = await recovery.MIN_DELAY();
+      await expect(recovery.configureRecovery(guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, minDelay - 1n))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_RECOVERY_DELAY);
+    });
+
+    it("Is reverted if the delay is bigger than the maximum one", async () => {
+      const { recovery } = await setUpFixture(deployContracts);
+      const maxDelay = await recovery.MAX_DELAY();
+      await proveTx(recovery.configureRecovery(guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, maxDelay));
+      await expect(recovery.configureRecovery(guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, maxDelay + 1n))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_RECOVERY_DELAY);
+      await expect(recovery.configureRecovery(guardianAddresses, REQUIRED_GUARDIAN_APPROVALS, 2n ** 120n - 1n))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_RECOVERY_DELAY);
+    });
+  });
+
+  describe("Function 'proposeRecovery()'", () => {
+    it("Proposes and approves a recovery as expected", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+
+      const txResponse = connect(recovery, guardian1).proposeRecovery(walletAddress, newOwnerAddresses, 1);
+      const executableAt = await getTxTimestamp(txResponse) + RECOVERY_DELAY;
+      await expect(txResponse)
+        .to.emit(recovery, EVENT_NAME_PROPOSE_RECOVERY)
+        .withArgs(walletAddress, 1, guardian1.address, newOwnerAddresses, 1, executableAt);
+      await expect(txResponse)
+        .to.emit(recovery, EVENT_NAME_APPROVE_RECOVERY)
+        .withArgs(walletAddress, 1, guardian1.address);
+
+      const pendingRecovery = await recovery.getRecovery(walletAddress);
+      expect(pendingRecovery.nonce).to.eq(1);
+      expect(pendingRecovery.executableAt).to.eq(executableAt);
+      expect(pendingRecovery.approvalCount).to.eq(1);
+      expect(pendingRecovery.newRequiredApprovals).to.eq(1);
+      expect(pendingRecovery.newOwners).to.deep.eq(newOwnerAddresses);
+      expect(await recovery.isRecoveryApproved(walletAddress, 1, guardian1.address)).to.eq(true);
+    });
+
+    it("Is reverted if the caller is not a guardian of the wallet", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(connect(recovery, owner1).proposeRecovery(getAddress(wallet), newOwnerAddresses, 1))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_UNAUTHORIZED_CALLER);
+    });
+
+    it("Is reverted if there is a pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await expect(connect(recovery, guardian3).proposeRecovery(getAddress(wallet), newOwnerAddresses, 1))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_ALREADY_PENDING);
+    });
+
+    it("Is reverted if the array of new owners is empty", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(connect(recovery, guardian1).proposeRecovery(getAddress(wallet), [], 1))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_EMPTY_OWNERS_ARRAY);
+    });
+
+    it("Is reverted if the new owners contain the zero address or duplicates", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await expect(connect(recovery, guardian1).proposeRecovery(walletAddress, [newOwner1.address, ADDRESS_ZERO], 1))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_ZERO_OWNER_ADDRESS);
+      await expect(connect(recovery, guardian1).proposeRecovery(
+        walletAddress,
+        [newOwner1.address, newOwner2.address, newOwner1.address],
+        1,
+      )).to.be.revertedWithCustomError(recovery, ERROR_NAME_DUPLICATE_OWNER_ADDRESS);
+    });
+
+    it("Is reverted if the number of required approvals is invalid for the new owners", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await expect(connect(recovery, guardian1).proposeRecovery(walletAddress, newOwnerAddresses, 0))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
+      await expect(connect(recovery, guardian1).proposeRecovery(
+        walletAddress,
+        newOwnerAddresses,
+        newOwnerAddresses.length + 1,
+      )).to.be.revertedWithCustomError(recovery, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
+    });
+  });
+
+  describe("Function 'approveRecovery()'", () => {
+    it("Approves the pending recovery as expected", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await proveTx(connect(recovery, guardian1).proposeRecovery(walletAddress, newOwnerAddresses, 1));
+
+      await expect(connect(recovery, guardian2).approveRecovery(walletAddress))
+        .to.emit(recovery, EVENT_NAME_APPROVE_RECOVERY)
+        .withArgs(walletAddress, 1, guardian2.address);
+      expect((await recovery.getRecovery(walletAddress)).approvalCount).to.eq(2);
+    });
+
+    it("Is reverted if the caller is not a guardian of the wallet", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await expect(connect(recovery, owner1).approveRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_UNAUTHORIZED_CALLER);
+    });
+
+    it("Is reverted if there is no pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(connect(recovery, guardian1).approveRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_NOT_PENDING);
+    });
+
+    it("Is reverted if the recovery is already approved by the caller", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await expect(connect(recovery, guardian2).approveRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_ALREADY_APPROVED);
+    });
+  });
+
+  describe("Function 'cancelRecovery()'", () => {
+    it("Cancels the pending recovery once the guardian quorum approves the cancellation", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await proposeAndApproveRecovery(wallet, recovery);
+
+      await expect(connect(recovery, guardian3).cancelRecovery(walletAddress))
+        .to.emit(recovery, EVENT_NAME_APPROVE_RECOVERY_CANCELLATION)
+        .withArgs(walletAddress, 1, guardian3.address)
+        .and.not.to.emit(recovery, EVENT_NAME_CANCEL_RECOVERY);
+      const pendingRecovery = await recovery.getRecovery(walletAddress);
+      expect(pendingRecovery.cancellationCount).to.eq(1);
+      expect(await recovery.isRecoveryCancellationApproved(walletAddress, 1, guardian3.address)).to.eq(true);
+
+      const txResponse = connect(recovery, guardian1).cancelRecovery(walletAddress);
+      await expect(txResponse)
+        .to.emit(recovery, EVENT_NAME_APPROVE_RECOVERY_CANCELLATION)
+        .withArgs(walletAddress, 1, guardian1.address);
+      await expect(txResponse)
+        .to.emit(recovery, EVENT_NAME_CANCEL_RECOVERY)
+        .withArgs(walletAddress, 1);
+      expect((await recovery.getRecovery(walletAddress)).executableAt).to.eq(0);
+
+      // The guardians can propose a new recovery without the previous cancellation approvals
+      await proveTx(connect(recovery, guardian2).proposeRecovery(walletAddress, newOwnerAddresses, 1));
+      expect((await recovery.getRecovery(walletAddress)).cancellationCount).to.eq(0);
+      expect(await recovery.isRecoveryCancellationApproved(walletAddress, 2, guardian3.address)).to.eq(false);
+    });
+
+    it("Is reverted if the caller is not a guardian of the wallet", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await expect(connect(recovery, owner1).cancelRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_UNAUTHORIZED_CALLER);
+    });
+
+    it("Is reverted if there is no pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(connect(recovery, guardian1).cancelRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_NOT_PENDING);
+    });
+
+    it("Is reverted if the cancellation is already approved by the caller", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await proveTx(connect(recovery, guardian1).cancelRecovery(getAddress(wallet)));
+      await expect(connect(recovery, guardian1).cancelRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_CANCELLATION_ALREADY_APPROVED);
+    });
+  });
+
+  describe("Function 'vetoRecovery()'", () => {
+    it("Cancels the pending recovery on behalf of a wallet owner", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await proposeAndApproveRecovery(wallet, recovery);
+
+      await expect(connect(recovery, owner3).vetoRecovery(walletAddress))
+        .to.emit(recovery, EVENT_NAME_VETO_RECOVERY)
+        .withArgs(walletAddress, 1, owner3.address);
+      expect((await recovery.getRecovery(walletAddress)).executableAt).to.eq(0);
+
+      // Approvals of the vetoed recovery are not counted for a new one
+      await proveTx(connect(recovery, guardian2).proposeRecovery(walletAddress, newOwnerAddresses, 1));
+      const pendingRecovery = await recovery.getRecovery(walletAddress);
+      expect(pendingRecovery.nonce).to.eq(2);
+      expect(pendingRecovery.approvalCount).to.eq(1);
+      expect(await recovery.isRecoveryApproved(walletAddress, 2, guardian1.address)).to.eq(false);
+    });
+
+    it("Is reverted if the caller is not a wallet owner", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await expect(connect(recovery, guardian1).vetoRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_UNAUTHORIZED_CALLER);
+    });
+
+    it("Is reverted if there is no pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(connect(recovery, owner1).vetoRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_NOT_PENDING);
+    });
+  });
+
+  describe("Function 'executeRecovery()'", () => {
+    it("Replaces the wallet owners after the delay", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      const walletAddress = getAddress(wallet);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await increaseBlockTimestamp(RECOVERY_DELAY);
+
+      const txResponse = connect(recovery, deployer).executeRecovery(walletAddress);
+      await expect(txResponse)
+        .to.emit(recovery, EVENT_NAME_EXECUTE_RECOVERY)
+        .withArgs(walletAddress, 1, deployer.address);
+      await expect(txResponse)
+        .to.emit(wallet, EVENT_NAME_CONFIGURE_OWNERS)
+        .withArgs(newOwnerAddresses, REQUIRED_APPROVALS);
+      await expect(txResponse)
+        .to.emit(wallet, EVENT_NAME_EXECUTION_FROM_MODULE_SUCCESS)
+        .withArgs(getAddress(recovery));
+
+      expect(await wallet.owners()).to.deep.eq(newOwnerAddresses);
+      expect((await recovery.getRecovery(walletAddress)).executableAt).to.eq(0);
+    });
+
+    it("Is reverted if there is no pending recovery", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await expect(recovery.executeRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_NOT_PENDING);
+    });
+
+    it("Is reverted if the recovery has not enough guardian approvals", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(connect(recovery, guardian1).proposeRecovery(getAddress(wallet), newOwnerAddresses, 1));
+      await increaseBlockTimestamp(RECOVERY_DELAY);
+
+      await expect(recovery.executeRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_NOT_ENOUGH_GUARDIAN_APPROVALS);
+    });
+
+    it("Is reverted if the delay has not passed", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      await increaseBlockTimestamp(RECOVERY_DELAY - 10);
+
+      await expect(recovery.executeRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_DELAY_NOT_ENDED);
+    });
+
+    it("Is reverted if the wallet fails to replace the owners", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      // A registry without the notification hook makes the owners configuration of the wallet revert
+      const configureRegistryData = wallet.interface.encodeFunctionData("configureRegistry", [getAddress(recovery)]);
+      await proveTx(executeSelfCalls(wallet, [{ to: getAddress(wallet), value: 0, data: configureRegistryData }]));
+      await increaseBlockTimestamp(RECOVERY_DELAY);
+
+      await expect(recovery.executeRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(recovery, ERROR_NAME_RECOVERY_FAILED)
+        .withArgs("0x");
+    });
+
+    it("Is reverted if the module is not enabled in the wallet", async () => {
+      const { wallet, recovery } = await setUpFixture(deployAndConfigureContracts);
+      await proposeAndApproveRecovery(wallet, recovery);
+      const disableModuleData = wallet.interface.encodeFunctionData("disableModule", [getAddress(recovery)]);
+      await proveTx(executeSelfCalls(wallet, [{ to: getAddress(wallet), value: 0, data: disableModuleData }]));
+      await increaseBlockTimestamp(RECOVERY_DELAY);
+
+      await expect(recovery.executeRecovery(getAddress(wallet)))
+        .to.be.revertedWithCustomError(wallet, ERROR_NAME_UNAUTHORIZED_CALLER);
+    });
+  });
+});
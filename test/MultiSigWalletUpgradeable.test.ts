@@ -4,11 +4,15 @@ import { Contract, ContractFactory } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { connect, getAddress, proveTx } from "../test-utils/eth";
 import { setUpFixture } from "../test-utils/common";
+import { getWalletContractFactory, WALLET_PROXY_OPTIONS } from "../test-utils/wallet";
 
 describe("Contract 'MultiSigWalletUpgradeable'", () => {
   const ADDRESS_ZERO = ethers.ZeroAddress;
   const REQUIRED_APPROVALS = 2;
   const DEFAULT_EXPIRATION_TIME = 3600 * 24 * 10;
+  const REGISTRY_ADDRESS_STUB = "0x0000000000000000000000000000000000000001";
+
+  const UNINITIALIZED_PROXY_OPTIONS = { ...WALLET_PROXY_OPTIONS, initializer: false as const };
 
   const ERROR_MESSAGE_CONTRACT_IS_ALREADY_INITIALIZED = "Initializable: contract is already initialized";
 
@@ -30,8 +34,8 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
   before(async () => {
     [, owner1, owner2, owner3] = await ethers.getSigners();
     ownerAddresses = [owner1.address, owner2.address, owner3.address];
-    walletUpgradeableFactory = await ethers.getContractFactory("MultiSigWalletUpgradeable");
-    walletFactory = await ethers.getContractFactory("MultiSigWallet");
+    walletUpgradeableFactory = await getWalletContractFactory("MultiSigWalletUpgradeable");
+    walletFactory = await getWalletContractFactory("MultiSigWallet");
   });
 
   async function checkOwnership(
@@ -47,8 +51,11 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
   }
 
   async function deployWalletUpgradeable(): Promise<{ wallet: Contract }> {
-    const wallet =
-      await upgrades.deployProxy(walletUpgradeableFactory, [ownerAddresses, REQUIRED_APPROVALS]) as Contract;
+    const wallet = await upgrades.deployProxy(
+      walletUpgradeableFactory,
+      [ownerAddresses, REQUIRED_APPROVALS],
+      WALLET_PROXY_OPTIONS,
+    ) as Contract;
     await wallet.waitForDeployment();
 
     return {
@@ -113,14 +120,14 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
 
     it("Is reverted if the input owner array is empty", async () => {
       const uninitializedWallet =
-        await upgrades.deployProxy(walletUpgradeableFactory, [], { initializer: false }) as Contract;
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
       await expect(uninitializedWallet.initialize([], 0))
         .to.be.revertedWithCustomError(uninitializedWallet, ERROR_NAME_EMPTY_OWNERS_ARRAY);
     });
 
     it("Is reverted if the input number of required approvals is zero", async () => {
       const uninitializedWallet =
-        await upgrades.deployProxy(walletUpgradeableFactory, [], { initializer: false }) as Contract;
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
       const requiredApprovals = 0;
       await expect(uninitializedWallet.initialize(ownerAddresses, requiredApprovals))
         .to.be.revertedWithCustomError(uninitializedWallet, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
@@ -128,7 +135,7 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
 
     it("Is reverted if the number of required approvals exceeds the length of the owner array", async () => {
       const uninitializedWallet =
-        await upgrades.deployProxy(walletUpgradeableFactory, [], { initializer: false }) as Contract;
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
       const requiredApprovals = ownerAddresses.length + 1;
       await expect(uninitializedWallet.initialize(ownerAddresses, requiredApprovals))
         .to.be.revertedWithCustomError(uninitializedWallet, ERROR_NAME_INVALID_REQUIRED_APPROVALS);
@@ -136,7 +143,7 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
 
     it("Is reverted if one of the input owners is the zero address", async () => {
       const uninitializedWallet =
-        await upgrades.deployProxy(walletUpgradeableFactory, [], { initializer: false }) as Contract;
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
       const ownerAddressArray = [ownerAddresses[0], ownerAddresses[1], ADDRESS_ZERO];
       const requiredApprovals = ownerAddressArray.length - 1;
       await expect(uninitializedWallet.initialize(ownerAddressArray, requiredApprovals))
@@ -145,7 +152,7 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
 
     it("Is reverted if there is a duplicate address in the input owner array", async () => {
       const uninitializedWallet =
-        await upgrades.deployProxy(walletUpgradeableFactory, [], { initializer: false }) as Contract;
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
       const ownerAddressArray = [ownerAddresses[0], ownerAddresses[1], ownerAddresses[0]];
       const requiredApprovals = ownerAddresses.length - 1;
       await expect(uninitializedWallet.initialize(ownerAddressArray, requiredApprovals))
@@ -161,6 +168,35 @@ describe("Contract 'MultiSigWalletUpgradeable'", () => {
     });
   });
 
+  describe("Function 'initializeWithRegistry()'", () => {
+    it("Configures the contract as expected", async () => {
+      const wallet = await upgrades.deployProxy(
+        walletUpgradeableFactory,
+        [ownerAddresses, REQUIRED_APPROVALS, REGISTRY_ADDRESS_STUB],
+        { ...WALLET_PROXY_OPTIONS, initializer: "initializeWithRegistry" },
+      ) as Contract;
+      await wallet.waitForDeployment();
+
+      expect(await wallet.owners()).to.deep.eq(ownerAddresses);
+      expect(await wallet.requiredApprovals()).to.eq(REQUIRED_APPROVALS);
+      expect(await wallet.expirationTime()).to.eq(DEFAULT_EXPIRATION_TIME);
+      expect(await wallet.registry()).to.eq(REGISTRY_ADDRESS_STUB);
+    });
+
+    it("Is reverted if it is called after the initialization", async () => {
+      const { wallet } = await setUpFixture(deployWalletUpgradeable);
+      await expect(wallet.initializeWithRegistry(ownerAddresses, REQUIRED_APPROVALS, REGISTRY_ADDRESS_STUB))
+        .to.be.revertedWith(ERROR_MESSAGE_CONTRACT_IS_ALREADY_INITIALIZED);
+    });
+
+    it("Is reverted if the wallet parameters are invalid", async () => {
+      const uninitializedWallet =
+        await upgrades.deployProxy(walletUpgradeableFactory, [], UNINITIALIZED_PROXY_OPTIONS) as Contract;
+      await expect(uninitializedWallet.initializeWithRegistry([], 0, REGISTRY_ADDRESS_STUB))
+        .to.be.revertedWithCustomError(uninitializedWallet, ERROR_NAME_EMPTY_OWNERS_ARRAY);
+    });
+  });
+
   describe("Scenarios with contract upgrades", () => {
     it("Upgrade is executed as expected when it is called by the wallet itself", async () => {
       const { wallet } = await setUpFixture(deployAllContracts);